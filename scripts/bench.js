@@ -0,0 +1,101 @@
+// Compares parsing speed with and without the first character dispatch table, by parsing large
+// generated documents with the default rules, and again with `firstChars` removed from them.
+//
+// Usage: node scripts/bench.js [sections] [runs]
+import { createServer } from 'vite';
+
+const SECTION = `## Section heading with *emphasis*
+
+A paragraph with **strong text**, _underlined words_, \`inline code\`, ~~deleted~~ text and a
+[link](https://example.com "title") next to an ![image](https://example.com/image.png). Plain
+urls like https://example.com/path?query=1 and <mail@example.com> are links too.[^note]
+
+- a list item with [a reflink][ref]
+- [x] a finished task
+- [ ] an unfinished task
+  1. a nested ordered item
+  2. and another one
+
+> a block quote, with some \\*escaped\\* characters
+> over two lines
+
+| name | value |
+| :--- | ----: |
+| one  | 1     |
+| two  | 2     |
+
+\`\`\`ts {2}
+const answer = 42;
+console.log(answer);
+\`\`\`
+
+    an indented code block
+
+---
+
+[ref]: https://example.com/ref
+[^note]: A footnote.
+
+`;
+
+function time(parser, source) {
+	const start = performance.now();
+	parser(source);
+	return performance.now() - start;
+}
+
+function median(values) {
+	const sorted = [...values].sort((a, b) => a - b);
+	return sorted[sorted.length >> 1];
+}
+
+async function main() {
+	const sections = Number(process.argv[2] || 500);
+	const runs = Number(process.argv[3] || 15);
+
+	const server = await createServer({
+		configFile: false,
+		logLevel: 'error',
+		server: { middlewareMode: true }
+	});
+
+	try {
+		const { createParser, defaultRules, RuleList } = await server.ssrLoadModule(
+			'/src/lib/core/index.ts'
+		);
+
+		// eslint-disable-next-line @typescript-eslint/no-unused-vars
+		const withoutDispatch = new RuleList(defaultRules.map(({ firstChars, ...rule }) => rule));
+		const parsers = {
+			dispatch: createParser(defaultRules),
+			'no dispatch': createParser(withoutDispatch)
+		};
+
+		const source = SECTION.repeat(sections);
+		const results = Object.values(parsers).map((parser) => JSON.stringify(parser(source)));
+		if (results[0] !== results[1]) {
+			throw new Error('The parsers returned different results');
+		}
+
+		console.log(`${sections} sections, ${source.length} characters, ${runs} runs each`);
+		// The parsers take turns, so neither is favoured by warming up first or by the machine
+		// being busier at some point, and the median of their runs is compared.
+		const times = Object.keys(parsers).map(() => []);
+		Object.values(parsers).forEach((parser) => parser(source));
+		for (let i = 0; i < runs; i++) {
+			Object.values(parsers).forEach((parser, j) => times[j].push(time(parser, source)));
+		}
+		const medians = times.map(median);
+		Object.keys(parsers).forEach((name, j) => {
+			console.log(`${name}: ${medians[j].toFixed(1)}ms per parse`);
+		});
+		console.log(`dispatch takes ${Math.round((medians[0] / medians[1]) * 100)}% of the time`);
+	} finally {
+		await server.close();
+	}
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});
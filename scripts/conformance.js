@@ -0,0 +1,242 @@
+// Runs the examples of the CommonMark spec and the GFM spec through
+// `createParser(defaultRules)` and `renderToHtml`, and compares the html with the spec's. The
+// examples that are known to fail are kept in `conformance/baseline.json`, and any other example
+// that fails is a regression.
+//
+// Usage: node scripts/conformance.js [--update] [--verbose] [section]
+//   --update   writes the examples that fail now as the new baseline
+//   --verbose  prints every failing example, instead of only the regressions
+//   section    only runs the sections whose name contains this text
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import prettier from 'prettier';
+import { createServer } from 'vite';
+
+const DIRECTORY = new URL('./conformance/', import.meta.url);
+const BASELINE = new URL('baseline.json', DIRECTORY);
+// The GFM spec (version 0.28) is the CommonMark spec with the GFM extensions added
+const SPECS = ['commonmark', 'gfm'];
+
+const EXAMPLE_FENCE = '`'.repeat(32);
+
+/** Reads the examples of a spec file, in the format of the CommonMark spec's `spec.txt` */
+function readExamples(text) {
+	const examples = [];
+	let section = '';
+	let example = null;
+	let part = 'markdown';
+
+	text.split('\n').forEach((line) => {
+		if (!example) {
+			if (line.startsWith(EXAMPLE_FENCE + ' example')) {
+				example = { number: examples.length + 1, section, markdown: '', html: '' };
+				part = 'markdown';
+			} else if (/^#+ /.test(line)) {
+				section = line.replace(/^#+ /, '').trim();
+			}
+		} else if (line === EXAMPLE_FENCE) {
+			examples.push(example);
+			example = null;
+		} else if (line === '.' && part === 'markdown') {
+			part = 'html';
+		} else {
+			// Tabs are written as arrows in the spec, so they can be seen
+			example[part] += line.replace(/→/g, '\t') + '\n';
+		}
+	});
+
+	return examples;
+}
+
+const BLOCK_TAGS =
+	'address|article|aside|blockquote|details|dialog|div|dl|dd|dt|fieldset|figcaption|figure|' +
+	'footer|form|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|table|tbody|td|tfoot|th|thead|tr|ul';
+const BLOCK_TAG_R = new RegExp('\\s*(</?(?:' + BLOCK_TAGS + ')(?:\\s[^>]*)?/?>)\\s*', 'gi');
+const TAG_R =
+	/<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+const ATTRIBUTE_R = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(text) {
+	return text.replace(/&(#[xX][0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (entity, name) => {
+		if (name[0] !== '#') {
+			return ENTITIES[name];
+		}
+		const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : +name.slice(1);
+		return String.fromCodePoint(code);
+	});
+}
+
+function encodeText(text) {
+	return decodeEntities(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Makes html that looks the same in a browser compare as equal: whitespace around block tags is
+ * removed, attributes are sorted, and text is escaped in one way. `<pre>` keeps its whitespace.
+ */
+function normalizeHtml(html) {
+	const parts = html.split(/(<pre[\s>][\s\S]*?<\/pre>)/);
+	return parts
+		.map((part, i) => {
+			if (i % 2 === 0) {
+				part = part.replace(BLOCK_TAG_R, '$1').replace(/\s+/g, ' ');
+			}
+			let result = '';
+			let last = 0;
+			part.replace(TAG_R, (tag, close, name, attributes, index) => {
+				result += encodeText(part.slice(last, index));
+				last = index + tag.length;
+
+				const sorted = [];
+				let match;
+				ATTRIBUTE_R.lastIndex = 0;
+				while ((match = ATTRIBUTE_R.exec(attributes))) {
+					const value = match[2] ?? match[3] ?? match[4];
+					const encoded = value === undefined ? '' : encodeText(value).replace(/"/g, '&quot;');
+					sorted.push(match[1].toLowerCase() + '="' + encoded + '"');
+				}
+				sorted.sort();
+				result += '<' + close + name.toLowerCase() + sorted.map((a) => ' ' + a).join('') + '>';
+				return tag;
+			});
+			return result + encodeText(part.slice(last));
+		})
+		.join('')
+		.trim();
+}
+
+async function main() {
+	const args = process.argv.slice(2);
+	const update = args.includes('--update');
+	const verbose = args.includes('--verbose');
+	const filter = args.find((arg) => !arg.startsWith('--'));
+
+	const server = await createServer({
+		configFile: false,
+		logLevel: 'error',
+		server: { middlewareMode: true }
+	});
+
+	try {
+		const { createParser, defaultRules, linkHtmlRenderers, renderToHtml, sanitizeText } =
+			await server.ssrLoadModule('/src/lib/core/index.ts');
+
+		const parser = createParser(defaultRules);
+		// The spec's html has no ids, link targets or image loading attributes
+		const links = linkHtmlRenderers({ rel: '', target: '' });
+		const renderers = {
+			...links,
+			heading: (node, output) => `<h${node.level}>${output(node.content)}</h${node.level}>`,
+			codeBlock: (node) =>
+				'<pre><code' +
+				(node.lang ? ` class="language-${sanitizeText(node.lang)}"` : '') +
+				'>' +
+				// Code blocks leave out their last newline, which the spec keeps
+				sanitizeText(node.content ? node.content + '\n' : '') +
+				'</code></pre>',
+			image: (node, output) =>
+				links
+					.image(node, output)
+					.replace(/ (width|height|loading|decoding)="[^"]*"/g, '')
+					.replace(/>$/, ' />')
+		};
+		const render = (markdown) => renderToHtml(parser(markdown), renderers);
+
+		const baseline = existsSync(BASELINE) ? JSON.parse(readFileSync(BASELINE, 'utf8')) : {};
+		const newBaseline = {};
+		let regressions = 0;
+		let fixed = 0;
+
+		for (const spec of SPECS) {
+			const file = new URL(spec + '.txt', DIRECTORY);
+			if (!existsSync(file)) {
+				throw new Error(`${spec}: no spec file at ${file.pathname}`);
+			}
+
+			const known = new Set(baseline[spec] || []);
+			const failing = [];
+			const sections = new Map();
+			const examples = readExamples(readFileSync(file, 'utf8')).filter(
+				(example) => !filter || example.section.toLowerCase().includes(filter.toLowerCase())
+			);
+
+			examples.forEach((example) => {
+				let actual;
+				try {
+					actual = render(example.markdown);
+				} catch (error) {
+					actual = 'Error: ' + error.message;
+				}
+				const passed = normalizeHtml(actual) === normalizeHtml(example.html);
+
+				const counts = sections.get(example.section) || { passed: 0, total: 0 };
+				counts.total++;
+				if (passed) {
+					counts.passed++;
+					if (known.has(example.number)) {
+						fixed++;
+					}
+				} else {
+					failing.push(example.number);
+				}
+				sections.set(example.section, counts);
+
+				const regression = !passed && !known.has(example.number);
+				if (regression) {
+					regressions++;
+				}
+				if (!passed && (verbose || (regression && !update))) {
+					console.log(
+						`${regression ? 'Regression' : 'Failing'}: ${spec} example ${example.number} (${
+							example.section
+						})`
+					);
+					console.log('markdown: ' + JSON.stringify(example.markdown));
+					console.log('expected: ' + JSON.stringify(normalizeHtml(example.html)));
+					console.log('actual:   ' + JSON.stringify(normalizeHtml(actual)) + '\n');
+				}
+			});
+
+			let passed = 0;
+			console.log(spec);
+			sections.forEach((counts, section) => {
+				passed += counts.passed;
+				console.log(`  ${section}: ${counts.passed}/${counts.total}`);
+			});
+			console.log(`  total: ${passed}/${examples.length}\n`);
+
+			// Sections that weren't run keep their baseline
+			newBaseline[spec] = [
+				...new Set([
+					...(baseline[spec] || []).filter(
+						(number) => !examples.some((example) => example.number === number)
+					),
+					...failing
+				])
+			].sort((a, b) => a - b);
+		}
+
+		if (update) {
+			// Formatted like the rest of the repo, so it passes `npm run lint`
+			const options = await prettier.resolveConfig(BASELINE.pathname);
+			const json = prettier.format(JSON.stringify(newBaseline), { ...options, parser: 'json' });
+			writeFileSync(BASELINE, json);
+			console.log('Wrote the baseline');
+		} else {
+			if (fixed) {
+				console.log(`${fixed} examples of the baseline pass now, run with --update to remove them`);
+			}
+			if (regressions) {
+				console.log(`${regressions} examples fail that aren't in the baseline`);
+				process.exitCode = 1;
+			}
+		}
+	} finally {
+		await server.close();
+	}
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});
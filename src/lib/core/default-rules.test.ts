@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { defaultRules } from './default-rules';
+import { defaultHtmlRenderers, renderToHtml } from './html';
+import { createParser } from './parser';
+import type { ASTNode } from './type';
+
+const parse = createParser(defaultRules);
+const render = (source: string) => renderToHtml(parse(source), defaultHtmlRenderers);
+
+// The math nodes of a source, as [content, display, block]
+function findMath(source: string) {
+	const math: [string, boolean, boolean][] = [];
+	const collect = (node: ASTNode | ASTNode[]) => {
+		if (Array.isArray(node)) {
+			node.forEach(collect);
+		} else if (node.type === 'math') {
+			math.push([node.content as string, node.display, node.block]);
+		} else if (Array.isArray(node.content)) {
+			collect(node.content as ASTNode[]);
+		}
+	};
+	collect(parse(source));
+	return math;
+}
+
+describe('math', () => {
+	it('parses inline, display and block math', () => {
+		expect(findMath('a $x^2$ b $$\\sum x$$ c\n\n$$\n\\int x\n$$\n\n')).toEqual([
+			['x^2', false, false],
+			['\\sum x', true, false],
+			['\\int x', true, true]
+		]);
+	});
+
+	it('keeps prices and escaped dollars as text', () => {
+		expect(findMath('$5 and $10')).toEqual([]);
+		expect(findMath('costs \\$5 or \\$x\\$')).toEqual([]);
+		expect(findMath('$a$5')).toEqual([]);
+		expect(findMath('$ a $')).toEqual([]);
+	});
+
+	it('renders display math in a paragraph in a span', () => {
+		expect(render('a $$x$$ b')).toBe('<p>a <span class="math math-display">x</span> b</p>');
+		expect(render('$$\nx\n$$\n\n')).toBe('<div class="math math-display">x</div>');
+	});
+});
+
+describe('footnotes', () => {
+	it('numbers footnotes with a definition in the order they are referenced', () => {
+		const html = render(
+			'a[^b] b[^missing] c[^A] d[^b]\n\n[^a]: first def\n\n[^b]: second def\n\n[^unused]: x'
+		);
+		expect(html).toBe(
+			'<p>a<sup id="fnref-1"><a href="#fn-1">1</a></sup> b[^missing] ' +
+				'c<sup id="fnref-2"><a href="#fn-2">2</a></sup> ' +
+				'd<sup id="fnref-1-2"><a href="#fn-1">1</a></sup></p>' +
+				'<section class="footnotes"><ol>' +
+				'<li id="fn-1" value="1"><p>second def</p> ' +
+				'<a href="#fnref-1" class="footnote-backref">↩</a> ' +
+				'<a href="#fnref-1-2" class="footnote-backref">↩</a></li>' +
+				'<li id="fn-2" value="2"><p>first def</p> ' +
+				'<a href="#fnref-2" class="footnote-backref">↩</a></li>' +
+				'</ol></section>'
+		);
+	});
+
+	it('numbers footnotes defined before they are referenced', () => {
+		expect(render('[^a]: def\n\nref[^a] and[^none]')).toBe(
+			'<p>ref<sup id="fnref-1"><a href="#fn-1">1</a></sup> and[^none]</p>' +
+				'<section class="footnotes"><ol><li id="fn-1" value="1"><p>def</p> ' +
+				'<a href="#fnref-1" class="footnote-backref">↩</a></li></ol></section>'
+		);
+	});
+
+	it('keeps references without a definition as text', () => {
+		expect(render('ref [^Missing]')).toBe('<p>ref [^Missing]</p>');
+	});
+});
@@ -1,12 +1,27 @@
 import { RuleList } from './rule-list';
-import type { ASTNode, Parser, ParserState, RefNode } from './type';
+import type {
+	ASTNode,
+	Parser,
+	ParserState,
+	RefNode,
+	StringifyFunction,
+	StringifyOutput,
+	StringifyState,
+	TypeOptionalASTNode
+} from './type';
 import {
 	anyScopeRegex,
 	blockRegex,
 	ignoreCapture,
 	inlineRegex,
 	parseCaptureInline,
+	parseBlock,
+	parseLineRanges,
 	parseInline,
+	slugify,
+	stringifyBlock,
+	stringifyInline,
+	textContent,
 	unescapeUrl
 } from './utilities';
 
@@ -30,12 +45,31 @@ const LIST_ITEM_R = new RegExp(
 	'gm'
 );
 const BLOCK_END_R = /\n{2,}$/;
-const INLINE_CODE_ESCAPE_BACKTICKS_R = /^ (?= *`)|(` *) $/g;
+
+// recognize a line that starts a block which can interrupt a paragraph: a
+// heading, a thematic break, a fence, a block quote, or a list starting at 1
+const HR = '(?:-(?: *-){2,}|\\*(?: *\\*){2,}|_(?: *_){2,}) *(?:\\n|$)';
+const INTERRUPT = ' {0,3}(?:#{1,6}(?:[ \\t]|\\n|$)|' + HR + '|`{3,}|~{3,}|>|(?:[*+-]|1\\.) +\\S)';
+
+// recognize a code fence, as `[fence, indent, fence chars, lang, meta, content, closing fence]`.
+// Backtick fences can't have backticks in their info string, so that ```code``` stays inline.
+const FENCE_R =
+	/^( *)(`{3,}(?![^\n]*`)|~{3,}) *(?:([^\s{]\S*) *)?([^\n]*?) *\n((?:[^\n]*\n)*?)( {0,3}\2[`~]* *(?:\n *)*\n|$)/;
+
+// code spans lose one space on each side when they have one on both, unless
+// they are only spaces
+const INLINE_CODE_PADDING_R = /^ (?=[\s\S]*[^ ])[\s\S]* $/;
+
+// characters in text that would otherwise be parsed as markdown, anywhere
+// or at the start of a line (headings, quotes, bullets and lheadings)
+const TEXT_ESCAPE_R = /[\\`*_~[\]<$]/g;
+const TEXT_LINE_START_ESCAPE_R = /(^|\n *)(#|>|[-+=]|\d+\.)/g;
 
 // recognize the end of a paragraph block inside a list item:
 // two or more newlines at end end of the item
 const LIST_BLOCK_END_R = BLOCK_END_R;
-const LIST_ITEM_END_R = / *\n+$/;
+// (starting only where spaces start, so indented lines aren't searched from every space)
+const LIST_ITEM_END_R = /(?<! ) *\n+$/;
 
 // check whether a list item has paragraphs: if it does,
 // we leave the newlines at the end
@@ -47,12 +81,62 @@ const LIST_R = new RegExp(
 		'(?!\\1' +
 		LIST_BULLET +
 		' )\\n*' +
-		// the \\s*$ here is so that we can parse the inside of nested
-		// lists, where our content might end before we receive two `\n`s
-		'|\\s*\n*$)'
+		// the end of the source here is so that we can parse the inside of
+		// nested lists, where our content might end before we receive two
+		// `\n`s. Trailing whitespace is only tried after a newline, since
+		// trying it everywhere backtracks through every indented line.
+		'|(?:\n\\s*)?$)'
 );
 const LIST_LOOKBEHIND_R = /(?:^|\n)( *)$/;
 
+/**
+ * How many levels of lists a list capture has, from the indentation of the lines that start with a
+ * bullet. Each level is parsed inside the one before it.
+ */
+function listNesting(capture: RegExpMatchArray) {
+	const indents: number[] = [];
+	let deepest = 0;
+	capture[0].split('\n').forEach((line) => {
+		const prefix = LIST_ITEM_PREFIX_R.exec(line);
+		if (prefix) {
+			const indent = prefix[1].length;
+			while (indents.length && indents[indents.length - 1] >= indent) {
+				indents.pop();
+			}
+			indents.push(indent);
+			deepest = Math.max(deepest, indents.length);
+		}
+	});
+	return deepest;
+}
+
+// recognize a task list item's checkbox: `- [ ] todo` or `- [x] done`
+const TASK_R = /^\[([ xX])\] +/;
+
+/** Finds the task node of a list item, which is inside a paragraph for loose lists */
+function findTask(item: ASTNode[]): ASTNode | undefined {
+	const first = item[0];
+	if (first?.type === 'task') {
+		return first;
+	} else if (first?.type === 'paragraph') {
+		const content = first.content as ASTNode[];
+		return content[0]?.type === 'task' ? content[0] : undefined;
+	}
+}
+
+/**
+ * Checks or unchecks a task list item in the source it was parsed from, using the
+ * task node's position. Returns the updated source.
+ */
+export function toggleTask(source: string, node: ASTNode, checked = !node.checked) {
+	const offset = node.position?.start.offset;
+	if (offset === undefined || source[offset] !== '[' || source[offset + 2] !== ']') {
+		throw new Error('The task node does not match the given source');
+	}
+
+	return source.slice(0, offset + 1) + (checked ? 'x' : ' ') + source.slice(offset + 2);
+}
+
 const TABLES = (function () {
 	const TABLE_ROW_SEPARATOR_TRIM = /^ *\| *| *\| *$/g;
 	const TABLE_CELL_END_TRIM = / *$/;
@@ -85,11 +169,13 @@ const TABLES = (function () {
 		source: string,
 		parse: Parser,
 		state: ParserState,
-		trimEndSeparators: boolean
+		trimEndSeparators: boolean,
+		offset: number
 	) => {
 		const prevInTable = state.inTable;
 		state.inTable = true;
-		const tableRow = parse(source.trim(), state);
+		const row = source.trim();
+		const tableRow = parse(row, state, offset + source.indexOf(row));
 		state.inTable = prevInTable;
 		const cells: ASTNode[][] = [[]];
 		tableRow.forEach(function (node, i) {
@@ -118,17 +204,22 @@ const TABLES = (function () {
 	 * @param {SimpleMarkdown.Parser} parse
 	 * @param {SimpleMarkdown.State} state
 	 * @param {boolean} trimEndSeparators
+	 * @param {number} offset
 	 * @returns {SimpleMarkdown.ASTNode[][]}
 	 */
 	const parseTableCells = function (
 		source: string,
 		parse: Parser,
 		state: ParserState,
-		trimEndSeparators: boolean
+		trimEndSeparators: boolean,
+		offset: number
 	) {
 		const rowsText = source.trim().split('\n');
+		let rowStart = offset + source.indexOf(rowsText[0]);
 		return rowsText.map(function (rowText) {
-			return parseTableRow(rowText, parse, state, trimEndSeparators);
+			const row = parseTableRow(rowText, parse, state, trimEndSeparators, rowStart);
+			rowStart += rowText.length + 1;
+			return row;
 		});
 	};
 
@@ -139,9 +230,12 @@ const TABLES = (function () {
 	const parseTable = function (trimEndSeparators: boolean) {
 		return function (capture: RegExpMatchArray, parse: Parser, state: ParserState) {
 			state.inline = true;
-			const header = parseTableRow(capture[1], parse, state, trimEndSeparators);
+			// The header is the first line of the capture and the rows start after the align line
+			const headerStart = capture[0].indexOf(capture[1]);
+			const rowsStart = capture[0].indexOf('\n', headerStart + capture[1].length + 1) + 1;
+			const header = parseTableRow(capture[1], parse, state, trimEndSeparators, headerStart);
 			const align = parseTableAlign(capture[2], trimEndSeparators);
-			const cells = parseTableCells(capture[3], parse, state, trimEndSeparators);
+			const cells = parseTableCells(capture[3], parse, state, trimEndSeparators, rowsStart);
 			state.inline = false;
 			return {
 				type: 'table',
@@ -152,22 +246,109 @@ const TABLES = (function () {
 		};
 	};
 
+	const stringifyTableAlign = (align: string | null) => {
+		if (align === 'right') {
+			return '--:';
+		} else if (align === 'center') {
+			return ':-:';
+		} else if (align === 'left') {
+			return ':--';
+		} else {
+			return '---';
+		}
+	};
+
+	const stringifyTableRow = (
+		cells: ASTNode[][],
+		output: StringifyOutput,
+		state: StringifyState
+	) => {
+		const cellState = { ...state, inline: true, inTable: true };
+		return '| ' + cells.map((cell) => output(cell, cellState)).join(' | ') + ' |';
+	};
+
+	/**
+	 * Tables from both `table` and `nptable` are written with leading and trailing pipes.
+	 */
+	const stringifyTable: StringifyFunction = (node, output, state) => {
+		const rows = [
+			stringifyTableRow(node.header, output, state),
+			'| ' + node.align.map(stringifyTableAlign).join(' | ') + ' |',
+			...node.cells.map((row: ASTNode[][]) => stringifyTableRow(row, output, state))
+		];
+		return rows.join('\n');
+	};
+
 	return {
 		parseTable: parseTable(true),
 		parseNpTable: parseTable(false),
+		stringifyTable,
 		TABLE_REGEX: /^ *(\|.+)\n *\|( *[-:]+[-| :]*)\n((?: *\|.*(?:\n|$))*)\n*/,
 		NPTABLE_REGEX: /^ *(\S.*\|.*)\n *([-:]+ *\|[-| :]*)\n((?:.*\|.*(?:\n|$))*)\n*/
 	};
 })();
 
-const LINK_INSIDE = '(?:\\[[^\\]]*\\]|[^\\[\\]]|\\](?=[^\\[]*\\]))*';
-const LINK_HREF_AND_TITLE =
-	'\\s*<?((?:\\([^)]*\\)|[^\\s\\\\]|\\\\.)*?)>?(?:\\s+[\'"]([\\s\\S]*?)[\'"])?\\s*';
+const LINK_INSIDE = '(?:\\\\[\\s\\S]|\\[[^\\]]*\\]|[^\\[\\]]|\\](?=[^\\[]*\\]))*';
+// The target is either in <>, where it can have spaces, or has balanced
+// parentheses. The title is in "", '' or ().
+const LINK_TARGET =
+	'(<(?:[^\\n<>\\\\]|\\\\.)*>|(?!<)(?:\\\\.|[^\\s\\\\()]|\\((?:\\\\.|[^\\s\\\\()]|\\((?:\\\\.|[^\\s\\\\()])*\\))*\\))*)';
+const LINK_TITLE =
+	'(?:\\s+("(?:\\\\.|[^"\\\\])*"|\'(?:\\\\.|[^\'\\\\])*\'|\\((?:\\\\.|[^()\\\\])*\\)))?';
+const LINK_HREF_AND_TITLE = '\\s*' + LINK_TARGET + LINK_TITLE + '\\s*';
+// The optional size of an image, written like `=300x200`, `=300x` or `=x200` after the title
+const IMAGE_SIZE = '(?:=(\\d*)x(\\d*)\\s*)?';
+const INLINE_MATH_R =
+	/^\$\$((?:\\[\s\S]|[^\\$])+?)\$\$|^\$(?=[^\s$])((?:\\[\s\S]|[^\\$])*?[^\s\\])\$(?!\d)/;
 const AUTOLINK_MAILTO_CHECK_R = /mailto:/i;
+const LINK_TARGET_ESCAPE_R = /[()\\]/g;
+const LINK_BRACKETED_TARGET_ESCAPE_R = /[<>\\]/g;
+
+/** Reads the target and title of a link or image, without their delimiters */
+function parseLinkTarget(target: string, title: string | undefined) {
+	return {
+		target: unescapeUrl(target[0] === '<' ? target.slice(1, -1) : target),
+		title: title && unescapeUrl(title.slice(1, -1))
+	};
+}
+
+function stringifyLinkTarget(node: ASTNode) {
+	const url: string = node.target || '';
+	// Targets with spaces are written in <>, so they are read back the same
+	const target = / /.test(url)
+		? '<' + url.replace(LINK_BRACKETED_TARGET_ESCAPE_R, '\\$&') + '>'
+		: url.replace(LINK_TARGET_ESCAPE_R, '\\$&');
+	const title = node.title ? ' "' + node.title.replace(/["\\]/g, '\\$&') + '"' : '';
+	const size =
+		node.width != null || node.height != null
+			? ' =' + (node.width ?? '') + 'x' + (node.height ?? '')
+			: '';
+	return '(' + target + title + size + ')';
+}
+
+function parseSize(size: string | undefined) {
+	return size ? parseInt(size, 10) : undefined;
+}
+
+/** Finds the shortest run of `chr` that does not appear in `content`, used for code fences. */
+function uniqueDelimiter(chr: string, content: string, minLength: number) {
+	const runs = content.match(new RegExp(chr + '+', 'g')) || [];
+	const longest = Math.max(minLength - 1, ...runs.map((run) => run.length));
+	return chr.repeat(longest + 1);
+}
+
+function wrapInline(delimiter: string): StringifyFunction {
+	return (node, output, state) =>
+		delimiter + stringifyInline(output, node.content as ASTNode[], state) + delimiter;
+}
 
 function parseRef(capture: RegExpMatchArray, state: ParserState, refNode: RefNode) {
 	const ref = (capture[2] || capture[1]).replace(/\s+/g, ' ').toLowerCase();
 
+	// The ref is kept as it was written, so the node can be written back
+	// to markdown as a reflink.
+	refNode.ref = capture[2];
+
 	// We store information about previously seen defs on
 	// state._defs (_ to deconflict with client-defined
 	// state). If the def for this reflink/refimage has
@@ -196,45 +377,182 @@ function parseRef(capture: RegExpMatchArray, state: ParserState, refNode: RefNod
 	return refNode;
 }
 
+// recognize a footnote definition, along with the lines and indented
+// paragraphs that continue it:
+// [^label]: the first paragraph
+// continues here
+//
+//     and this is another paragraph of the same footnote
+const FOOTNOTE_LABEL = '\\[\\^([^\\]\\s]+)\\]';
+// stop at blank lines, and at the next footnote or link definition
+const FOOTNOTE_LINE = '(?:[^\\n]|\\n(?! *\\n)(?! *\\[[^\\]\\n]+\\]:))*';
+const FOOTNOTE_DEF_R = new RegExp(
+	'^ *' +
+		FOOTNOTE_LABEL +
+		': *(' +
+		FOOTNOTE_LINE +
+		'(?:\\n(?: *\\n)+ {4}' +
+		FOOTNOTE_LINE +
+		')*)\\n(?: *\\n)*'
+);
+const FOOTNOTE_REF_R = new RegExp('^' + FOOTNOTE_LABEL);
+const FOOTNOTE_INDENT_R = /^ {1,4}/gm;
+
+interface FootnoteState {
+	// Labels in the order they are first referenced
+	labels: string[];
+	numbers: Record<string, number>;
+	refs: Record<string, TypeOptionalASTNode[]>;
+	defs: Record<string, TypeOptionalASTNode>;
+}
+
+/**
+ * Footnotes with a definition are numbered in the order they are first
+ * referenced. Like reflinks, we keep track of them on state._footnotes, so that
+ * references and definitions can update each other in whichever order they
+ * show up.
+ */
+function getFootnoteState(state: ParserState): FootnoteState {
+	state._footnotes = state._footnotes || { labels: [], numbers: {}, refs: {}, defs: {} };
+	return state._footnotes;
+}
+
+/**
+ * Numbers the footnotes again, after a definition was found for a label that
+ * was already referenced. References without a definition have no number.
+ */
+function numberFootnotes(footnotes: FootnoteState) {
+	footnotes.numbers = {};
+	let number = 0;
+	footnotes.labels.forEach((label) => {
+		const refs = footnotes.refs[label];
+		const def = footnotes.defs[label];
+		if (def) {
+			footnotes.numbers[label] = ++number;
+			def.index = number;
+			def.refCount = refs.length;
+		}
+		refs.forEach((ref) => {
+			ref.index = def ? number : undefined;
+		});
+	});
+}
+
+function normalizeFootnoteLabel(label: string) {
+	return label.toLowerCase();
+}
+
+/**
+ * Finds the footnote definitions that are referenced in a document, sorted by
+ * their number, for rendering a list of footnotes at the end of the document.
+ */
+export function collectFootnotes(nodes: ASTNode[]) {
+	const footnotes: Record<string, ASTNode> = {};
+	const collect = (children: ASTNode[]) => {
+		children.forEach((node) => {
+			if (node.type === 'footnoteDef') {
+				if (node.index) {
+					footnotes[node.label] = node;
+				}
+			} else if (Array.isArray(node.content)) {
+				collect(node.content as ASTNode[]);
+			}
+		});
+	};
+	collect(nodes);
+	return Object.values(footnotes).sort((a, b) => a.index - b.index);
+}
+
+export function footnoteId(index: number) {
+	return 'fn-' + index;
+}
+
+export function footnoteRefId(index: number, refIndex = 1) {
+	return 'fnref-' + index + (refIndex > 1 ? '-' + refIndex : '');
+}
+
+/**
+ * Gives a heading an id from its text, which is unique within the document.
+ * Ids that have been used are kept on state._slugs, and repeated ones are
+ * numbered: `intro`, `intro-1`, `intro-2`.
+ */
+function headingId(content: ASTNode[], state: ParserState) {
+	const slugger = state.slugger || slugify;
+	const slug = slugger(textContent(content)) || 'heading';
+
+	state._slugs = state._slugs || {};
+	let id = slug;
+	for (let i = 1; state._slugs[id]; i++) {
+		id = slug + '-' + i;
+	}
+	state._slugs[id] = true;
+
+	return id;
+}
+
 export const defaultRules = new RuleList();
 
 defaultRules.add({
 	name: 'heading',
-	match: blockRegex(/^ *(#{1,6})([^\n]+?)#* *(?:\n *)+\n/),
+	groups: ['headings'],
+	firstChars: ' #',
+	// The closing #s are only removed when there is a space before them
+	match: blockRegex(/^ {0,3}(#{1,6})(?:[ \t]+([^\n]*?))??(?:[ \t]+#+)?[ \t]*(?:\n *)*\n/),
 	parse: function (capture, parse, state) {
+		const content = parseInline(parse, (capture[2] || '').trim(), state);
 		return {
 			level: capture[1].length,
-			content: parseInline(parse, capture[2].trim(), state)
+			id: headingId(content, state),
+			content: content
 		};
+	},
+	stringify(node, output, state) {
+		// Headings underlined with `=` or `-` can have more than one line
+		const content = stringifyInline(output, node.content as ASTNode[], state);
+		return '#'.repeat(node.level) + ' ' + content.replace(/\n/g, ' ');
 	}
 });
 
 defaultRules.add({
 	name: 'nptable',
+	groups: ['tables'],
 	match: blockRegex(TABLES.NPTABLE_REGEX),
-	parse: TABLES.parseNpTable
+	parse: TABLES.parseNpTable,
+	children: ['header', 'cells']
 });
 
 defaultRules.add({
 	name: 'lheading',
-	match: blockRegex(/^([^\n]+)\n *(=|-){3,} *(?:\n *)+\n/),
+	groups: ['headings'],
+	// The lines of a paragraph, underlined with `=` or `-`
+	match: blockRegex(
+		new RegExp('^((?:(?!' + INTERRUPT + ')[^\\n]+\\n)+?) {0,3}(=+|-+) *(?:\\n *)*\\n')
+	),
 	parse(capture, parse, state) {
+		const content = parseInline(parse, capture[1].trim(), state);
 		return {
 			type: 'heading',
-			level: capture[2] === '=' ? 1 : 2,
-			content: parseInline(parse, capture[1], state)
+			level: capture[2][0] === '=' ? 1 : 2,
+			id: headingId(content, state),
+			content: content
 		};
 	}
 });
 
 defaultRules.add({
 	name: 'hr',
-	match: blockRegex(/^( *[-*_]){3,} *(?:\n *)+\n/),
-	parse: ignoreCapture
+	firstChars: ' -*_',
+	match: blockRegex(new RegExp('^ {0,3}' + HR + '(?: *\\n)*')),
+	parse: ignoreCapture,
+	stringify() {
+		return '---';
+	}
 });
 
 defaultRules.add({
 	name: 'codeBlock',
+	groups: ['code'],
+	firstChars: ' ',
 	match: blockRegex(/^(?: {4}[^\n]+\n*)+(?:\n *)+\n/),
 	parse(capture) {
 		const content = capture[0].replace(/^ {4}/gm, '').replace(/\n+$/, '');
@@ -242,34 +560,89 @@ defaultRules.add({
 			lang: undefined,
 			content: content
 		};
+	},
+	// Code blocks are always written fenced, so they keep their `lang` and
+	// can be placed anywhere without worrying about indentation.
+	stringify(node) {
+		const content = node.content as string;
+		const info = [node.lang, node.meta].filter(Boolean).join(' ');
+		// Backtick fences can't have backticks in their info string
+		const fence = uniqueDelimiter(info.includes('`') ? '~' : '`', content, 3);
+		return fence + info + '\n' + content + '\n' + fence;
 	}
 });
 
 defaultRules.add({
 	name: 'fence',
-	match: blockRegex(/^ *(`{3,}|~{3,}) *(?:(\S+) *)?\n([\s\S]+?)\n?\1 *(?:\n *)+\n/),
+	groups: ['code'],
+	firstChars: ' `~',
+	// A fence that is never closed runs to the end of the document
+	match: blockRegex(FENCE_R),
 	parse(capture) {
+		// Anything in the info string after the language, such as `{3-5}`
+		const meta = capture[4] || undefined;
+		let content = capture[5].replace(capture[6] ? /\n$/ : /\n+$/, '');
+		if (capture[1]) {
+			// Lines are unindented by as much as the opening fence is
+			content = content.replace(new RegExp('^ {1,' + capture[1].length + '}', 'gm'), '');
+		}
 		return {
 			type: 'codeBlock',
-			lang: capture[2] || undefined,
-			content: capture[3]
+			lang: capture[3] || undefined,
+			meta: meta,
+			highlightLines: parseLineRanges(meta, content.split('\n').length),
+			content: content
+		};
+	}
+});
+
+defaultRules.add({
+	name: 'math',
+	groups: ['math'],
+	firstChars: ' $',
+	match: blockRegex(/^ *\$\$([\s\S]+?)\$\$ *(?:\n *)+\n/),
+	parse(capture) {
+		return {
+			content: capture[1].trim(),
+			display: true,
+			block: true
 		};
+	},
+	// Handles the math nodes from both `math` and `inlineMath`
+	stringify(node, output, state) {
+		const content = node.content as string;
+		if (!node.display) {
+			return '$' + content + '$';
+		}
+		return state.inline ? '$$' + content + '$$' : '$$\n' + content + '\n$$';
 	}
 });
 
 defaultRules.add({
 	name: 'blockQuote',
+	firstChars: ' >',
 	match: blockRegex(/^( *>[^\n]+(\n[^\n]+)*\n*)+\n{2,}/),
 	parse(capture, parse, state) {
 		const content = capture[0].replace(/^ *> ?/gm, '');
+		// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+		const offset = /^ *> ?/.exec(capture[0])![0].length;
 		return {
-			content: parse(content, state)
+			content: parse(content, state, offset)
 		};
+	},
+	stringify(node, output, state) {
+		return stringifyBlock(output, node.content as ASTNode[], state)
+			.split('\n')
+			.map((line) => (line ? '> ' + line : '>'))
+			.join('\n');
 	}
 });
 
 defaultRules.add({
 	name: 'list',
+	groups: ['lists'],
+	firstChars: ' *+-0123456789',
+	nesting: listNesting,
 
 	match(source, state) {
 		// We only want to break into a list if we are at the start of a
@@ -300,7 +673,10 @@ defaultRules.add({
 		const items = capture[0].replace(LIST_BLOCK_END_R, '\n').match(LIST_ITEM_R)!;
 
 		let lastItemWasAParagraph = false;
+		let itemStart = 0;
 		const itemContent = items.map(function (item, i) {
+			// Where the item is in the capture, so its content can be located
+			itemStart = Math.max(capture[0].indexOf(item, itemStart), itemStart);
 			// We need to see how far indented this item is:
 			const prefixCapture = LIST_ITEM_PREFIX_R.exec(item);
 			const space = prefixCapture ? prefixCapture[0].length : 0; // And then we construct a regex to "unindent" the subsequent
@@ -334,7 +710,10 @@ defaultRules.add({
 
 			const oldStateInline = state.inline;
 			const oldStateList = state._list;
-			state._list = true; // Parse inline if we're in a tight list, or block if we're in
+			const oldStateTask = state._task;
+			state._list = true;
+			// Let the task rule match the `[ ]` at the start of this item, if there is one
+			state._task = TASK_R.test(content); // Parse inline if we're in a tight list, or block if we're in
 			// a loose list.
 
 			let adjustedContent;
@@ -347,31 +726,86 @@ defaultRules.add({
 				adjustedContent = content.replace(LIST_ITEM_END_R, '');
 			}
 
-			const result = parse(adjustedContent, state); // Restore our state before returning
+			const result = parse(adjustedContent, state, itemStart + space); // Restore our state before returning
+			itemStart += item.length;
 
 			state.inline = oldStateInline;
 			state._list = oldStateList;
+			state._task = oldStateTask;
 			return result;
 		});
 
 		return {
 			ordered: ordered,
 			start: start,
-			content: itemContent
+			content: itemContent,
+			// whether each item is a checked task, or null if it is not a task
+			checked: itemContent.map((item) => findTask(item)?.checked ?? null)
+		};
+	},
+	stringify(node, output, state) {
+		const items = node.content as unknown as ASTNode[][];
+		// Items of loose lists are parsed as blocks, giving them paragraphs
+		const isLoose = (item: ASTNode[]) => item.some((child) => child.type === 'paragraph');
+		const first = node.start ?? 1;
+
+		return items
+			.map((item, i) => {
+				const bullet = node.ordered ? first + i + '. ' : '- ';
+				const content = isLoose(item)
+					? stringifyBlock(output, item, state)
+					: stringifyInline(output, item, state);
+				return bullet + content.replace(/\n(?!\n|$)/g, '\n' + ' '.repeat(bullet.length));
+			})
+			.join(items.some(isLoose) ? '\n\n' : '\n');
+	}
+});
+
+defaultRules.add({
+	name: 'footnoteDef',
+	groups: ['footnotes'],
+	firstChars: ' [',
+	match: blockRegex(FOOTNOTE_DEF_R),
+	parse(capture, parse, state) {
+		const label = normalizeFootnoteLabel(capture[1]);
+		const footnotes = getFootnoteState(state);
+		const content = capture[2].replace(FOOTNOTE_INDENT_R, '');
+
+		// If this footnote has already been referenced, it gets a number now,
+		// and so do the footnotes referenced after it. Otherwise, the first
+		// reference will give it one.
+		const node: TypeOptionalASTNode = {
+			label: label,
+			index: undefined,
+			refCount: 0,
+			content: parseBlock(parse, content, state)
 		};
+		footnotes.defs[label] = node;
+		if (footnotes.refs[label]) {
+			numberFootnotes(footnotes);
+		}
+		return node;
+	},
+	stringify(node, output, state) {
+		const content = stringifyBlock(output, node.content as ASTNode[], state);
+		return '[^' + node.label + ']: ' + content.replace(/\n(?!\n|$)/g, '\n    ');
 	}
 });
 
 defaultRules.add({
 	name: 'def',
+	firstChars: ' [',
 	// TODO(aria): This will match without a blank line before the next
 	// block element, which is inconsistent with most of the rest of
 	// simple-markdown.
-	match: blockRegex(/^ *\[([^\]]+)\]: *<?([^\s>]*)>?(?: +["(]([^\n]+)[")])? *\n(?: *\n)*/),
+	// The target can have spaces when it is in <>
+	match: blockRegex(
+		/^ *\[([^\]]+)\]: *(?:<([^\n<>]*)>|<?([^\s>]*)>?)(?: +["(]([^\n]+)[")])? *\n(?: *\n)*/
+	),
 	parse(capture, parse, state) {
 		const def = capture[1].replace(/\s+/g, ' ').toLowerCase();
-		const target = capture[2];
-		const title = capture[3];
+		const target = capture[2] ?? capture[3];
+		const title = capture[4] && unescapeUrl(capture[4]);
 
 		// Look for previous links/images using this def
 		// If any links/images using this def have already been declared,
@@ -406,29 +840,68 @@ defaultRules.add({
 			target: target,
 			title: title
 		};
+	},
+	stringify(node) {
+		const target = / /.test(node.target) ? '<' + node.target + '>' : node.target;
+		const title = node.title ? ' "' + node.title.replace(/["\\]/g, '\\$&') + '"' : '';
+		return '[' + node.def + ']: ' + target + title;
 	}
 });
 
 defaultRules.add({
 	name: 'table',
+	groups: ['tables'],
+	firstChars: ' |',
 	match: blockRegex(TABLES.TABLE_REGEX),
-	parse: TABLES.parseTable
+	parse: TABLES.parseTable,
+	stringify: TABLES.stringifyTable,
+	children: ['header', 'cells']
 });
 
 defaultRules.add({
 	name: 'newline',
+	firstChars: '\n',
 	match: blockRegex(/^(?:\n *)*\n/),
 	parse: ignoreCapture
 });
 
 defaultRules.add({
 	name: 'paragraph',
-	match: blockRegex(/^((?:[^\n]|\n(?! *\n))+)(?:\n *)+\n/),
-	parse: parseCaptureInline
+	// Ends at a blank line, or at a line that starts another block
+	match: blockRegex(
+		new RegExp(
+			'^((?:[^\\n]|\\n(?! *\\n)(?!' + INTERRUPT + '))+)(?:(?:\\n *)+\\n|\\n(?=' + INTERRUPT + '))'
+		)
+	),
+	parse: parseCaptureInline,
+	stringify(node, output, state) {
+		return stringifyInline(output, node.content as ASTNode[], state);
+	}
+});
+
+defaultRules.add({
+	name: 'task',
+	groups: ['lists'],
+	firstChars: '[',
+	// Only matches at the start of list items, which the list rule
+	// lets us know about with state._task
+	match(source, state) {
+		return state._task ? TASK_R.exec(source) : null;
+	},
+	parse(capture, parse, state) {
+		state._task = false;
+		return {
+			checked: capture[1] !== ' '
+		};
+	},
+	stringify(node) {
+		return node.checked ? '[x] ' : '[ ] ';
+	}
 });
 
 defaultRules.add({
 	name: 'escape',
+	firstChars: '\\',
 	// We don't allow escaping numbers, letters, or spaces here so that
 	// backslashes used in plain text still get rendered. But allowing
 	// escaping anything else provides a very flexible escape mechanism,
@@ -444,6 +917,8 @@ defaultRules.add({
 
 defaultRules.add({
 	name: 'tableSeparator',
+	groups: ['tables'],
+	firstChars: ' |',
 
 	match(source, state) {
 		if (!state.inTable) {
@@ -461,6 +936,8 @@ defaultRules.add({
 
 defaultRules.add({
 	name: 'autolink',
+	groups: ['links'],
+	firstChars: '<',
 	match: inlineRegex(/^<([^: >]+:\/[^ >]+)>/),
 	parse(capture) {
 		return {
@@ -478,6 +955,8 @@ defaultRules.add({
 
 defaultRules.add({
 	name: 'mailto',
+	groups: ['links'],
+	firstChars: '<',
 	match: inlineRegex(/^<([^ >]+@[^ >]+)>/),
 	parse(capture) {
 		const address = capture[1];
@@ -502,6 +981,8 @@ defaultRules.add({
 
 defaultRules.add({
 	name: 'url',
+	groups: ['links'],
+	firstChars: 'h',
 	match: inlineRegex(/^(https?:\/\/[^\s<]+[^<.,:;"')\]\s])/),
 	parse(capture) {
 		return {
@@ -518,34 +999,106 @@ defaultRules.add({
 	}
 });
 
+defaultRules.add({
+	name: 'footnote',
+	groups: ['footnotes'],
+	firstChars: '[',
+	match: inlineRegex(FOOTNOTE_REF_R),
+	parse(capture, parse, state) {
+		const label = normalizeFootnoteLabel(capture[1]);
+		const footnotes = getFootnoteState(state);
+
+		if (!footnotes.refs[label]) {
+			footnotes.labels.push(label);
+			footnotes.refs[label] = [];
+		}
+		const refs = footnotes.refs[label];
+
+		// Until its definition is found, a reference has no number, and it
+		// is rendered as text if there is none.
+		const node: TypeOptionalASTNode = {
+			label: capture[1],
+			index: undefined,
+			// which reference to this footnote this is, starting from 1
+			refIndex: refs.length + 1
+		};
+		refs.push(node);
+
+		const def = footnotes.defs[label];
+		if (def) {
+			// Footnotes referenced for the first time come after the others
+			footnotes.numbers[label] =
+				footnotes.numbers[label] || Object.keys(footnotes.numbers).length + 1;
+			node.index = def.index = footnotes.numbers[label];
+			def.refCount = refs.length;
+		}
+
+		return node;
+	},
+	stringify(node) {
+		return '[^' + node.label + ']';
+	}
+});
+
 defaultRules.add({
 	name: 'link',
+	groups: ['links'],
+	firstChars: '[',
 	match: inlineRegex(new RegExp('^\\[(' + LINK_INSIDE + ')\\]\\(' + LINK_HREF_AND_TITLE + '\\)')),
 	parse(capture, parse, state) {
 		const link = {
 			content: parse(capture[1], state),
-			target: unescapeUrl(capture[2]),
-			title: capture[3]
+			...parseLinkTarget(capture[2], capture[3])
 		};
 		return link;
+	},
+	// Handles the link nodes from all of the link rules
+	stringify(node, output, state) {
+		const children = node.content as ASTNode[];
+		const content = output(children, state);
+		if (node.ref !== undefined) {
+			return '[' + content + '][' + node.ref + ']';
+		}
+
+		const text = children.length === 1 && children[0].content;
+		if (text === node.target || 'mailto:' + text === node.target) {
+			return '<' + text + '>';
+		}
+
+		return '[' + content + ']' + stringifyLinkTarget(node);
 	}
 });
 
 defaultRules.add({
 	name: 'image',
-	match: inlineRegex(new RegExp('^!\\[(' + LINK_INSIDE + ')\\]\\(' + LINK_HREF_AND_TITLE + '\\)')),
+	groups: ['images'],
+	firstChars: '!',
+	match: inlineRegex(
+		new RegExp('^!\\[(' + LINK_INSIDE + ')\\]\\(' + LINK_HREF_AND_TITLE + IMAGE_SIZE + '\\)')
+	),
 	parse: function (capture) {
 		const image = {
 			alt: capture[1],
-			target: unescapeUrl(capture[2]),
-			title: capture[3]
+			...parseLinkTarget(capture[2], capture[3]),
+			width: parseSize(capture[4]),
+			height: parseSize(capture[5])
 		};
 		return image;
+	},
+	// Handles the image nodes from both `image` and `refimage`
+	stringify(node) {
+		if (node.ref !== undefined) {
+			return '![' + node.alt + '][' + node.ref + ']';
+		}
+
+		return '![' + node.alt + ']' + stringifyLinkTarget(node);
 	}
 });
 
 defaultRules.add({
 	name: 'reflink',
+	groups: ['links'],
+	firstChars: '[',
 	match: inlineRegex(
 		new RegExp( // The first [part] of the link
 			'^\\[(' +
@@ -564,6 +1117,8 @@ defaultRules.add({
 
 defaultRules.add({
 	name: 'refimage',
+	groups: ['images'],
+	firstChars: '!',
 	match: inlineRegex(
 		new RegExp( // The first [part] of the link
 			'^!\\[(' +
@@ -582,11 +1137,13 @@ defaultRules.add({
 
 defaultRules.add({
 	name: 'em',
+	groups: ['emphasis'],
+	firstChars: '_*',
 	/* same as strong/u */
 	match: inlineRegex(
 		new RegExp( // only match _s surrounding words.
-			'^\\b_' +
-				'((?:__|\\\\[\\s\\S]|[^\\\\_])+?)_' +
+			'^\\b_(?=\\S)' +
+				'((?:__|\\\\[\\s\\S]|[^\\\\_])*?(?:__|\\\\[\\s\\S]|[^\\s\\\\_]))_' +
 				'\\b' + // Or match *s:
 				'|' + // Only match *s that are followed by a non-space:
 				'^\\*(?=\\S)(' + // Match at least one of:
@@ -610,51 +1167,93 @@ defaultRules.add({
 		return {
 			content: parse(capture[2] || capture[1], state)
 		};
-	}
+	},
+	stringify: wrapInline('*')
 });
 
 defaultRules.add({
 	name: 'strong',
+	groups: ['emphasis'],
+	firstChars: '*',
 	/* same as em */
-	match: inlineRegex(/^\*\*((?:\\[\s\S]|[^\\])+?)\*\*(?!\*)/),
+	// Can't start or end with a space, like em
+	match: inlineRegex(/^\*\*(?=\S)((?:\\[\s\S]|[^\\])*?(?:\\[\s\S]|[^\s\\]))\*\*(?!\*)/),
 	quality(capture) {
 		// precedence by length, wins ties vs `u`:
 		return capture[0].length + 0.1;
 	},
-	parse: parseCaptureInline
+	parse: parseCaptureInline,
+	stringify: wrapInline('**')
 });
 
 defaultRules.add({
 	name: 'u',
+	groups: ['emphasis'],
+	firstChars: '_',
 	/* same as em&strong; increment for next rule */
-	match: inlineRegex(/^__((?:\\[\s\S]|[^\\])+?)__(?!_)/),
+	match: inlineRegex(/^__(?=\S)((?:\\[\s\S]|[^\\])*?(?:\\[\s\S]|[^\s\\]))__(?!_)/),
 	quality(capture) {
 		// precedence by length, loses all ties
 		return capture[0].length;
 	},
-	parse: parseCaptureInline
+	parse: parseCaptureInline,
+	stringify: wrapInline('__')
 });
 
 defaultRules.add({
 	name: 'del',
+	groups: ['emphasis'],
+	firstChars: '~',
 	match: inlineRegex(/^~~(?=\S)((?:\\[\s\S]|~(?!~)|[^\s~\\]|\s(?!~~))+?)~~/),
-	parse: parseCaptureInline
+	parse: parseCaptureInline,
+	stringify: wrapInline('~~')
 });
 
 defaultRules.add({
 	name: 'inlineCode',
+	groups: ['code'],
+	firstChars: '`',
 	match: inlineRegex(/^(`+)([\s\S]*?[^`])\1(?!`)/),
+	parse(capture) {
+		const content = capture[2].replace(/\n/g, ' ');
+		return {
+			content: INLINE_CODE_PADDING_R.test(content) ? content.slice(1, -1) : content
+		};
+	},
+	stringify(node) {
+		const content = node.content as string;
+		const delimiter = uniqueDelimiter('`', content, 1);
+		// A space is needed to separate the content from the delimiter
+		const padding = /^`|`$/.test(content) || INLINE_CODE_PADDING_R.test(content) ? ' ' : '';
+		return delimiter + padding + content + padding + delimiter;
+	}
+});
+
+defaultRules.add({
+	name: 'inlineMath',
+	groups: ['math'],
+	firstChars: '$',
+	// `$` must be followed by a non-space and closed by a non-space that isn't followed by a digit,
+	// so prices like `$5 and $10` stay text. Escaped dollars like `\$` don't close it.
+	match: inlineRegex(INLINE_MATH_R),
 	parse(capture) {
 		return {
-			content: capture[2].replace(INLINE_CODE_ESCAPE_BACKTICKS_R, '$1')
+			type: 'math',
+			content: capture[1] ?? capture[2],
+			display: capture[1] !== undefined,
+			block: false
 		};
 	}
 });
 
 defaultRules.add({
 	name: 'br',
+	firstChars: ' ',
 	match: anyScopeRegex(/^ {2,}\n/),
-	parse: ignoreCapture
+	parse: ignoreCapture,
+	stringify() {
+		return '  \n';
+	}
 });
 
 defaultRules.add({
@@ -668,5 +1267,16 @@ defaultRules.add({
 		return {
 			content: capture[0]
 		};
+	},
+	stringify(node, output, state) {
+		let text = (node.content as string)
+			.replace(TEXT_ESCAPE_R, '\\$&')
+			.replace(TEXT_LINE_START_ESCAPE_R, (_: string, lineStart: string, marker: string) =>
+				marker.endsWith('.') ? lineStart + marker.slice(0, -1) + '\\.' : lineStart + '\\' + marker
+			);
+		if (state.inTable) {
+			text = text.replace(/\|/g, '\\|');
+		}
+		return text;
 	}
 });
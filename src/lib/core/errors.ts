@@ -0,0 +1,30 @@
+/** What went wrong while parsing */
+export type MarkdownParseErrorReason =
+	/** No rule matched the source */
+	| 'noMatch'
+	/** A rule's `match` returned a capture that doesn't start at index 0 */
+	| 'matchIndex'
+	/** A rule's `parse` threw an error */
+	| 'parse'
+	/** The source is longer than `limits.maxLength` */
+	| 'maxLength'
+	/** Parses are nested deeper than `limits.maxDepth` */
+	| 'maxDepth'
+	/** The document has more nodes than `limits.maxNodes` */
+	| 'maxNodes';
+
+export class MarkdownParseError extends Error {
+	reason: MarkdownParseErrorReason;
+	/** The rule that caused the error, if there is one */
+	rule?: string;
+	/** Where in the original source the error happened */
+	offset: number;
+
+	constructor(message: string, reason: MarkdownParseErrorReason, offset: number, rule?: string) {
+		super(message);
+		this.name = 'MarkdownParseError';
+		this.reason = reason;
+		this.offset = offset;
+		this.rule = rule;
+	}
+}
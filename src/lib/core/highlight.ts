@@ -0,0 +1,106 @@
+import { htmlTag } from './html';
+import type { CodeLineOptions, HighlightResult, HighlightToken } from './type';
+import { sanitizeText } from './utilities';
+
+const HTML_TAG_OR_NEWLINE_R = /<(\/?)([a-zA-Z][\w-]*)[^>]*>|\n/g;
+
+function splitTokenLines(tokens: HighlightToken[]) {
+	const lines = [''];
+	tokens.forEach((token) => {
+		token.content.split('\n').forEach((part, i) => {
+			if (i > 0) {
+				lines.push('');
+			}
+			if (part) {
+				const text = sanitizeText(part);
+				lines[lines.length - 1] += token.className
+					? htmlTag('span', text, { class: token.className })
+					: text;
+			}
+		});
+	});
+	return lines;
+}
+
+/**
+ * Splits html into lines. Tags that are still open at the end of a line are closed, and opened
+ * again on the next line, so every line is valid html by itself.
+ */
+function splitHtmlLines(html: string) {
+	const lines: string[] = [];
+	const openTags: { name: string; tag: string }[] = [];
+	let line = '';
+	let lastIndex = 0;
+
+	let match: RegExpExecArray | null;
+	HTML_TAG_OR_NEWLINE_R.lastIndex = 0;
+	while ((match = HTML_TAG_OR_NEWLINE_R.exec(html))) {
+		line += html.slice(lastIndex, match.index);
+		lastIndex = match.index + match[0].length;
+
+		if (match[0] === '\n') {
+			lines.push(
+				line +
+					[...openTags]
+						.reverse()
+						.map(({ name }) => '</' + name + '>')
+						.join('')
+			);
+			line = openTags.map(({ tag }) => tag).join('');
+			continue;
+		}
+
+		line += match[0];
+		if (match[1]) {
+			const index = openTags.map(({ name }) => name).lastIndexOf(match[2]);
+			if (index !== -1) {
+				openTags.splice(index, 1);
+			}
+		} else if (!match[0].endsWith('/>')) {
+			openTags.push({ name: match[2], tag: match[0] });
+		}
+	}
+
+	lines.push(line + html.slice(lastIndex));
+	return lines;
+}
+
+/**
+ * Turns code into html for the inside of a `<code>` element, using the output of a highlighter if
+ * there is one. With line numbers or highlighted lines, each line is wrapped in a `line` span.
+ */
+export function renderCodeLines(
+	code: string,
+	result: HighlightResult | null | undefined,
+	options: CodeLineOptions = {}
+) {
+	const { lineNumbers = false, highlightLines = [] } = options;
+	if (!lineNumbers && !highlightLines.length) {
+		if (typeof result === 'string') {
+			return result;
+		}
+		return result ? splitTokenLines(result).join('\n') : sanitizeText(code);
+	}
+
+	let lines: string[];
+	if (typeof result === 'string') {
+		lines = splitHtmlLines(result);
+	} else if (result) {
+		lines = splitTokenLines(result);
+	} else {
+		lines = code.split('\n').map(sanitizeText);
+	}
+
+	return lines
+		.map((line, i) => {
+			const number = i + 1;
+			const numberSpan = lineNumbers
+				? htmlTag('span', String(number), { class: 'line-number', 'aria-hidden': 'true' })
+				: '';
+			return htmlTag('span', numberSpan + line, {
+				class: highlightLines.includes(number) ? 'line highlighted' : 'line',
+				'data-line': number
+			});
+		})
+		.join('\n');
+}
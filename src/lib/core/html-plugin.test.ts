@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { defaultHtmlRenderers, renderToHtml } from './html';
+import { htmlPlugin } from './html-plugin';
+import { createParser } from './parser';
+import { applyPlugins } from './plugins';
+
+function createHtmlParser(...args: Parameters<typeof htmlPlugin>) {
+	const applied = applyPlugins([htmlPlugin(...args)]);
+	const parse = createParser(applied.rules, applied.state);
+	return (source: string) =>
+		renderToHtml(parse(source), { ...defaultHtmlRenderers, ...applied.html });
+}
+
+describe('htmlPlugin', () => {
+	const render = createHtmlParser();
+
+	it('keeps allowed inline elements, with markdown in them', () => {
+		expect(render('Press <kbd>Ctrl</kbd> and <mark>*this*</mark>')).toBe(
+			'<p>Press <kbd>Ctrl</kbd> and <mark><em>this</em></mark></p>'
+		);
+	});
+
+	it('keeps other html as text', () => {
+		expect(render('<script>alert(1)</script> <b>x</b>')).toBe(
+			'<p>&lt;script&gt;alert(1)&lt;/script&gt; &lt;b&gt;x&lt;/b&gt;</p>'
+		);
+	});
+
+	it("doesn't allow tags from the allowlist's prototype", () => {
+		expect(render('a <constructor>x</constructor> b')).toBe(
+			'<p>a &lt;constructor&gt;x&lt;/constructor&gt; b</p>'
+		);
+		expect(render('<constructor title=1>x</constructor> <toString>y</toString>')).toBe(
+			'<p>&lt;constructor title=1&gt;x&lt;/constructor&gt; &lt;toString&gt;y&lt;/toString&gt;</p>'
+		);
+	});
+
+	it('keeps only allowed attributes', () => {
+		expect(render('<abbr title="HyperText" onclick="x()">HTML</abbr>')).toBe(
+			'<p><abbr title="HyperText">HTML</abbr></p>'
+		);
+	});
+
+	it('leaves out unsafe urls', () => {
+		const renderLinks = createHtmlParser({ q: ['cite'] });
+		expect(renderLinks('<q cite="javascript:alert(1)">x</q> <q cite="/a">y</q>')).toBe(
+			'<p><q>x</q> <q cite="/a">y</q></p>'
+		);
+	});
+
+	it("doesn't search the whole source again for each unclosed tag", () => {
+		const start = Date.now();
+		[
+			'<kbd>'.repeat(20000),
+			'a<sup>b</sub> '.repeat(20000),
+			'<kbd><kbd></kbd>'.repeat(10000)
+		].forEach((source) => render(source));
+		expect(Date.now() - start).toBeLessThan(5000);
+	});
+
+	it('keeps elements with many nested elements of the same tag as text', () => {
+		expect(render('<sup>' + '<sup>x</sup>'.repeat(50) + '</sup>')).toMatch(/^<p><sup><sup>x/);
+		expect(render('<sup>' + '<sup>x</sup>'.repeat(60) + '</sup>')).toMatch(/^<p>&lt;sup&gt;<sup>x/);
+	});
+
+	it('leaves out unsafe urls in every url attribute', () => {
+		const renderMedia = createHtmlParser({
+			img: ['srcset', 'alt'],
+			video: ['poster'],
+			a: ['xlink:href', 'ping']
+		});
+		expect(
+			renderMedia(
+				'<img srcset="/a.png 1x, javascript:alert(1) 2x" alt="a"> ' +
+					'<video poster="javascript:alert(1)"></video> ' +
+					'<a xlink:href="javascript:alert(1)" ping="/p vbscript:x">b</a>'
+			)
+		).toBe('<p><img alt="a"> <video></video> <a>b</a></p>');
+		expect(renderMedia('<img srcset="/a.png 1x, /b.png 2x">')).toBe(
+			'<p><img srcset="/a.png 1x, /b.png 2x"></p>'
+		);
+	});
+
+	it('parses block elements with block content', () => {
+		expect(render('<details open>\n<summary>More</summary>\n\n- item\n\n</details>')).toMatch(
+			/^<details open(="")?><summary>More<\/summary><ul><li>item<\/li><\/ul><\/details>$/
+		);
+	});
+});
@@ -0,0 +1,231 @@
+import type { MarkdownPlugin } from './plugins';
+import type { ASTNode, ParseFunction, StringifyFunction } from './type';
+import { parseBlock, parseInline, sanitizeUrl, stringifyBlock, stringifyInline } from './utilities';
+
+/** Allowed html tags, and the attributes each of them can have */
+export type HtmlAllowlist = Record<string, string[]>;
+
+export const defaultHtmlAllowlist: HtmlAllowlist = {
+	kbd: [],
+	sup: [],
+	sub: [],
+	mark: [],
+	abbr: ['title'],
+	details: ['open'],
+	summary: [],
+	br: []
+};
+
+// Tags that start a block of their own when they are at the start of a line
+const BLOCK_TAGS = new Set(['details', 'summary', 'div', 'section', 'figure', 'figcaption', 'hr']);
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'wbr']);
+// Attributes whose value is a url, and those whose value is a list of them
+const URL_ATTRIBUTES = new Set([
+	'action',
+	'background',
+	'cite',
+	'classid',
+	'codebase',
+	'data',
+	'dynsrc',
+	'formaction',
+	'href',
+	'icon',
+	'longdesc',
+	'lowsrc',
+	'manifest',
+	'poster',
+	'profile',
+	'src',
+	'usemap',
+	'xlink:href'
+]);
+const URL_LIST_ATTRIBUTES = new Set(['archive', 'ping', 'srcset']);
+// The most tags with the same name an element can contain, see `findClosingTag`
+const MAX_SAME_TAGS = 100;
+
+const OPEN_TAG_R =
+	/^<([a-zA-Z][\w-]*)((?:\s+[a-zA-Z_:][\w:.-]*(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/;
+const ATTRIBUTE_R = /([a-zA-Z_:][\w:.-]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const BLOCK_END_R = /^[ \t]*(?:\n|$)\n*/;
+const ENTITY_R = /&(quot|#39|amp|lt|gt);/g;
+const ENTITIES: Record<string, string> = {
+	quot: '"',
+	'#39': "'",
+	amp: '&',
+	lt: '<',
+	gt: '>'
+};
+
+/** The attributes a tag can have, or null if it isn't allowed. Only the allowlist's own keys count. */
+function allowedAttributes(allowlist: HtmlAllowlist, tag: string) {
+	const allowed = Object.prototype.hasOwnProperty.call(allowlist, tag) ? allowlist[tag] : null;
+	return Array.isArray(allowed) ? allowed : null;
+}
+
+/**
+ * Finds the closing tag of an element whose content starts at `start`, skipping nested elements
+ * with the same tag. Returns -1 if it is never closed, or if it is only closed after
+ * `MAX_SAME_TAGS` other tags with its name. Without that limit, every unclosed tag would search the
+ * rest of the source, which takes quadratic time for input like `<kbd><kbd><kbd>…`.
+ */
+function findClosingTag(source: string, tag: string, start: number) {
+	const tagR = new RegExp('<(/?)' + tag + '(?=[\\s/>])[^>]*>', 'gi');
+	tagR.lastIndex = start;
+	let depth = 1;
+	let match: RegExpExecArray | null;
+	for (let count = 0; count <= MAX_SAME_TAGS && (match = tagR.exec(source)); count++) {
+		depth += match[1] ? -1 : 1;
+		if (depth === 0) {
+			return match.index;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Matches an allowed element as `[element, tag, attributes, content]`. Elements that are never
+ * closed don't match, so they stay text. Block elements can be indented, and must end their line.
+ */
+function matchElement(source: string, allowlist: HtmlAllowlist, block: boolean) {
+	const indent = block ? source.length - source.replace(/^ +/, '').length : 0;
+	const openTag = OPEN_TAG_R.exec(source.slice(indent));
+	const tag = openTag?.[1].toLowerCase();
+	if (!openTag || !tag || !allowedAttributes(allowlist, tag) || BLOCK_TAGS.has(tag) !== block) {
+		return null;
+	}
+
+	let end = indent + openTag[0].length;
+	let content: string | undefined;
+	if (!VOID_TAGS.has(tag) && !openTag[3]) {
+		const close = findClosingTag(source, tag, end);
+		if (close === -1) {
+			return null;
+		}
+		content = source.slice(end, close);
+		end = source.indexOf('>', close) + 1;
+	}
+
+	if (block) {
+		const blockEnd = BLOCK_END_R.exec(source.slice(end));
+		if (!blockEnd) {
+			return null;
+		}
+		end += blockEnd[0].length;
+	}
+
+	const capture = [source.slice(0, end), tag, openTag[2], content] as RegExpMatchArray;
+	capture.index = 0;
+	capture.input = source;
+	return capture;
+}
+
+/**
+ * Returns the value of an attribute, or null if it has a url that isn't safe. `srcset` lists urls
+ * with a size after each, separated by commas, and the other lists separate them with spaces.
+ */
+function sanitizeAttribute(name: string, value: string) {
+	if (URL_ATTRIBUTES.has(name)) {
+		return sanitizeUrl(value);
+	}
+	if (URL_LIST_ATTRIBUTES.has(name)) {
+		const urls =
+			name === 'srcset'
+				? value.split(',').map((candidate) => candidate.trim().split(/\s+/)[0])
+				: value.split(/\s+/).filter(Boolean);
+		return urls.every((url) => sanitizeUrl(url) != null) ? value : null;
+	}
+	return value;
+}
+
+/** Keeps the allowed attributes, and leaves out urls that aren't safe */
+function parseAttributes(attributes: string, allowed: string[]) {
+	const result: Record<string, string> = {};
+	let match: RegExpExecArray | null;
+	ATTRIBUTE_R.lastIndex = 0;
+	while ((match = ATTRIBUTE_R.exec(attributes))) {
+		const name = match[1].toLowerCase();
+		const value = sanitizeAttribute(
+			name,
+			(match[2] ?? match[3] ?? match[4] ?? '').replace(
+				ENTITY_R,
+				(_, entity: string) => ENTITIES[entity]
+			)
+		);
+		if (allowed.includes(name) && value != null) {
+			result[name] = value;
+		}
+	}
+	return result;
+}
+
+const stringifyElement: StringifyFunction = (node, output, state) => {
+	let attributes = '';
+	for (const name in node.attributes) {
+		const value: string = node.attributes[name];
+		attributes += value ? ' ' + name + '="' + value.replace(/"/g, '&quot;') + '"' : ' ' + name;
+	}
+
+	const openTag = '<' + node.tag + attributes + '>';
+	if (!node.content) {
+		return openTag;
+	}
+
+	const content = node.content as ASTNode[];
+	return node.block
+		? openTag + '\n\n' + stringifyBlock(output, content, state) + '\n\n</' + node.tag + '>'
+		: openTag + stringifyInline(output, content, state) + '</' + node.tag + '>';
+};
+
+/**
+ * Html elements in markdown, such as `<kbd>Ctrl</kbd>` or `<details>`. Only the tags and attributes
+ * in `allowlist` are kept, other html stays text. Urls in attributes such as `href`, `src` and
+ * `srcset` go through `sanitizeUrl`, and attributes with unsafe urls are left out.
+ *
+ * Elements become `html` nodes, with their content parsed as markdown. Block elements like
+ * `<details>` and `<summary>` must start a line, and their content is parsed as blocks when it has
+ * an empty line.
+ */
+export function htmlPlugin(allowlist: HtmlAllowlist = defaultHtmlAllowlist): MarkdownPlugin {
+	const parseElement =
+		(block: boolean): ParseFunction =>
+		(capture, parse, state) => {
+			const content = capture[3];
+			const blockContent = block && content !== undefined && /\n[ \t]*\n/.test(content);
+			return {
+				type: 'html',
+				tag: capture[1],
+				attributes: parseAttributes(capture[2], allowedAttributes(allowlist, capture[1]) || []),
+				content:
+					content === undefined
+						? undefined
+						: blockContent
+						? parseBlock(parse, content.trim(), state)
+						: parseInline(parse, content.trim(), state),
+				block: blockContent
+			};
+		};
+
+	return {
+		name: 'html',
+		rules: [
+			{
+				name: 'html',
+				before: 'paragraph',
+				groups: ['html'],
+				firstChars: ' <',
+				match: (source, state) => (state.inline ? null : matchElement(source, allowlist, true)),
+				parse: parseElement(true),
+				stringify: stringifyElement
+			},
+			{
+				name: 'inlineHtml',
+				before: 'autolink',
+				groups: ['html'],
+				firstChars: '<',
+				match: (source) => matchElement(source, allowlist, false),
+				parse: parseElement(false)
+			}
+		]
+	};
+}
@@ -0,0 +1,199 @@
+import { collectFootnotes, footnoteId, footnoteRefId } from './default-rules';
+import { resolveLink } from './links';
+import type { ASTNode, HtmlOutput, HtmlRenderer, HtmlRenderers, LinkPolicy } from './type';
+import { sanitizeText } from './utilities';
+
+type Attributes = Record<string, string | number | null | undefined>;
+
+/**
+ * Creates an html string for a tag. Attributes that are `null` or `undefined` are left out, the
+ * rest are escaped. `content` is expected to already be safe html.
+ */
+export function htmlTag(
+	tagName: string,
+	content: string,
+	attributes: Attributes = {},
+	isClosed = true
+) {
+	let attributeString = '';
+	for (const attr in attributes) {
+		const value = attributes[attr];
+		if (value != null) {
+			attributeString += ' ' + sanitizeText(attr) + '="' + sanitizeText(String(value)) + '"';
+		}
+	}
+
+	const unclosedTag = '<' + tagName + attributeString + '>';
+	if (isClosed) {
+		return unclosedTag + content + '</' + tagName + '>';
+	} else {
+		return unclosedTag;
+	}
+}
+
+function basicTag(tagName: string): HtmlRenderer {
+	return (node, output) => htmlTag(tagName, output(node.content as ASTNode[]));
+}
+
+function alignStyle(align: string | null) {
+	return align ? 'text-align:' + align : undefined;
+}
+
+/**
+ * Html renderers for `link` and `image` nodes that follow a link policy. Links and images whose url
+ * isn't allowed are rendered without it. Pass them to `renderToHtml` to use another policy than the
+ * default one.
+ */
+export function linkHtmlRenderers(policy: LinkPolicy = {}): HtmlRenderers {
+	return {
+		link: (node, output) => {
+			const link = resolveLink(node.target, 'link', policy);
+			return htmlTag('a', output(node.content as ASTNode[]), {
+				href: link?.url,
+				title: node.title,
+				rel: link?.rel,
+				target: link?.target
+			});
+		},
+		image: (node) =>
+			htmlTag(
+				'img',
+				'',
+				{
+					src: resolveLink(node.target, 'image', policy)?.url,
+					alt: node.alt,
+					title: node.title,
+					width: node.width,
+					height: node.height,
+					loading: 'lazy',
+					decoding: 'async'
+				},
+				false
+			)
+	};
+}
+
+export const defaultHtmlRenderers: HtmlRenderers = {
+	heading: (node, output) =>
+		htmlTag('h' + node.level, output(node.content as ASTNode[]), { id: node.id }),
+	hr: () => htmlTag('hr', '', {}, false),
+	blockQuote: basicTag('blockquote'),
+	codeBlock: (node) =>
+		htmlTag('pre', htmlTag('code', sanitizeText(node.content as string)), {
+			'data-lang': node.lang
+		}),
+	list: (node, output) => {
+		const items = (node.content as unknown as ASTNode[][])
+			.map((item, i) =>
+				htmlTag('li', output(item), {
+					class: node.checked?.[i] != null ? 'task-list-item' : undefined
+				})
+			)
+			.join('');
+		// Lists start at 1 by default
+		return htmlTag(node.ordered ? 'ol' : 'ul', items, {
+			start: node.start !== 1 ? node.start : undefined
+		});
+	},
+	table: (node, output) => {
+		const header = (node.header as ASTNode[][])
+			.map((cell, i) => htmlTag('th', output(cell), { style: alignStyle(node.align[i]) }))
+			.join('');
+		const rows = (node.cells as ASTNode[][][])
+			.map((row) =>
+				htmlTag(
+					'tr',
+					row
+						.map((cell, i) => htmlTag('td', output(cell), { style: alignStyle(node.align[i]) }))
+						.join('')
+				)
+			)
+			.join('');
+		return htmlTag('table', htmlTag('thead', htmlTag('tr', header)) + htmlTag('tbody', rows));
+	},
+	paragraph: basicTag('p'),
+	...linkHtmlRenderers(),
+	em: basicTag('em'),
+	strong: basicTag('strong'),
+	u: basicTag('u'),
+	del: basicTag('del'),
+	inlineCode: (node) => htmlTag('code', sanitizeText(node.content as string)),
+	// The TeX source, for a math library in the browser to render. Display math in a paragraph is
+	// a span, since a paragraph can't have a div in it.
+	math: (node) =>
+		htmlTag(node.block ? 'div' : 'span', sanitizeText(node.content as string), {
+			class: node.display ? 'math math-display' : 'math math-inline'
+		}),
+	br: () => htmlTag('br', '', {}, false),
+	html: (node, output) =>
+		htmlTag(
+			node.tag,
+			node.content ? output(node.content as ASTNode[]) : '',
+			node.attributes,
+			node.content !== undefined
+		),
+	task: (node) =>
+		htmlTag(
+			'input',
+			'',
+			{ type: 'checkbox', checked: node.checked ? '' : undefined, disabled: '' },
+			false
+		),
+	footnote: (node) =>
+		node.index
+			? htmlTag('sup', htmlTag('a', String(node.index), { href: '#' + footnoteId(node.index) }), {
+					id: footnoteRefId(node.index, node.refIndex)
+			  })
+			: sanitizeText('[^' + node.label + ']'),
+	footnotes: (node, output) => {
+		const items = (node.content as ASTNode[]).map((footnote) => {
+			let backlinks = '';
+			for (let i = 1; i <= footnote.refCount; i++) {
+				backlinks +=
+					' ' +
+					htmlTag('a', '↩', {
+						href: '#' + footnoteRefId(footnote.index, i),
+						class: 'footnote-backref'
+					});
+			}
+
+			return htmlTag('li', output(footnote.content as ASTNode[]) + backlinks, {
+				id: footnoteId(footnote.index),
+				value: footnote.index
+			});
+		});
+		return htmlTag('section', htmlTag('ol', items.join('')), { class: 'footnotes' });
+	},
+	text: (node) => sanitizeText(node.content as string)
+};
+
+/**
+ * Renders an AST to an html string, without needing any framework. `renderers` are merged over
+ * `defaultHtmlRenderers`, so custom rules only need to provide their own node types. Nodes
+ * without a renderer (such as `def` and `newline`) produce no output.
+ *
+ * Referenced footnotes are rendered at the end, as a `footnotes` node.
+ */
+export function renderToHtml(nodes: ASTNode | ASTNode[], renderers: HtmlRenderers = {}) {
+	const allRenderers: HtmlRenderers = {
+		...defaultHtmlRenderers,
+		...renderers
+	};
+
+	const output: HtmlOutput = (node) => {
+		if (Array.isArray(node)) {
+			return node.map(output).join('');
+		}
+
+		const renderer = allRenderers[node.type];
+		return renderer ? renderer(node, output) : '';
+	};
+
+	const html = output(nodes);
+	const footnotes = Array.isArray(nodes) ? collectFootnotes(nodes) : [];
+	if (footnotes.length) {
+		return html + output({ type: 'footnotes', content: footnotes });
+	}
+
+	return html;
+}
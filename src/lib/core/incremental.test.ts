@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { defaultRules } from './default-rules';
+import { createIncrementalParser } from './incremental';
+import { createParser } from './parser';
+import type { Parser } from './type';
+
+const parse: Parser = createParser(defaultRules);
+
+describe('createIncrementalParser', () => {
+	it('gives the same result as parsing from scratch while text is appended', () => {
+		const source =
+			'# Title\n\nA paragraph\nover two lines.\n\n- a list\n- with items\n\n```js\nconst a = 1;\n```\n\n> a quote\n\nThe end.';
+		const incremental = createIncrementalParser(parse);
+		for (let i = 1; i <= source.length; i += 3) {
+			const text = source.slice(0, i);
+			expect(incremental(text)).toEqual(parse(text));
+		}
+	});
+
+	it('reuses finished blocks', () => {
+		const incremental = createIncrementalParser(parse);
+		const first = incremental('# Title\n\nFirst paragraph.\n\nSecond');
+		const second = incremental('# Title\n\nFirst paragraph.\n\nSecond paragraph.');
+		expect(second[0]).toBe(first[0]);
+		expect(second).toEqual(parse('# Title\n\nFirst paragraph.\n\nSecond paragraph.'));
+	});
+
+	it('parses from scratch when the source is not appended to', () => {
+		const incremental = createIncrementalParser(parse);
+		const first = incremental('# Title\n\nText');
+		const second = incremental('# Other\n\nText');
+		expect(second[0]).not.toBe(first[0]);
+		expect(second).toEqual(parse('# Other\n\nText'));
+	});
+
+	it('keeps heading ids unique across reused blocks', () => {
+		const incremental = createIncrementalParser(parse);
+		incremental('# Title\n\nText\n\n');
+		const nodes = incremental('# Title\n\nText\n\n# Title');
+		expect(nodes.filter((node) => node.type === 'heading').map((node) => node.id)).toEqual([
+			'title',
+			'title-1'
+		]);
+	});
+});
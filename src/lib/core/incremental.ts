@@ -0,0 +1,137 @@
+import type { ASTNode, Parser, ParserState, SourcePoint } from './type';
+import { visit } from './visit';
+
+// Nodes that tie separate blocks of a document together. When a document has
+// these, blocks can change after they were parsed (a def found later fills in
+// earlier reflinks, footnotes are numbered across the document), so they can't
+// be reused.
+const DOCUMENT_NODE_TYPES = ['def', 'footnoteDef', 'footnote'];
+
+function usesDocumentNodes(nodes: ASTNode[]) {
+	let found = false;
+	visit(nodes, (node) => {
+		found = found || DOCUMENT_NODE_TYPES.includes(node.type) || node.ref !== undefined;
+	});
+	return found;
+}
+
+const FENCE_START_R = /^ *(`{3,}|~{3,})/;
+
+function isFenced(node: ASTNode, source: string) {
+	// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+	return FENCE_START_R.test(source.slice(node.position!.start.offset));
+}
+
+/**
+ * Whether appending text could make a block take in the blocks after it. Lists, block quotes and
+ * indented code blocks can all continue past blank lines. A paragraph that ended at a line starting
+ * another block, such as `# heading`, continues if that line turns into text, like `#hashtag`.
+ */
+function canContinue(node: ASTNode, source: string) {
+	// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+	const { start, end } = node.position!;
+	return (
+		node.type === 'list' ||
+		node.type === 'blockQuote' ||
+		(node.type === 'codeBlock' && !isFenced(node, source)) ||
+		(node.type === 'paragraph' && !/\n *\n$/.test(source.slice(start.offset, end.offset)))
+	);
+}
+
+/**
+ * Finds how many of the leading blocks of a block parse would not change if text was appended to
+ * `source`. The last block is never stable, since it could still be unfinished.
+ */
+function countStableBlocks(nodes: ASTNode[], source: string) {
+	if (!nodes.every((node) => node.position)) {
+		return 0;
+	}
+
+	let stable = nodes.length - 1;
+	while (stable > 0 && nodes[stable].type === 'newline') {
+		stable--;
+	}
+
+	for (let i = stable - 1; i >= 0; i--) {
+		if (nodes[i].type === 'newline') {
+			continue;
+		} else if (!canContinue(nodes[i], source)) {
+			break;
+		}
+		stable = i;
+	}
+
+	// A code fence that hasn't been closed yet runs to the end of the source,
+	// so it is the last block, which is never reused.
+	return stable;
+}
+
+function shiftPoint(point: SourcePoint, start: SourcePoint) {
+	if (point.line === 1) {
+		point.column += start.column - 1;
+	}
+	point.line += start.line - 1;
+	point.offset += start.offset;
+}
+
+/**
+ * Creates a parser for text that grows over time, such as chat messages arriving token by token.
+ * When the source is the previous source with text appended, the leading blocks that are already
+ * finished are reused, and only the rest of the document is parsed again. Anything else is parsed
+ * from scratch.
+ *
+ * The result is the same as calling `parser` directly. Reused blocks are the same objects as in
+ * the previous result, so they can be used as keys when rendering.
+ *
+ * This assumes custom block rules don't continue past blank lines, like the default paragraph
+ * rule. Inline parses are never reused.
+ */
+export function createIncrementalParser<P extends Parser>(parser: P): P {
+	let previousSource: string | null = null;
+	let previousNodes: ASTNode[] = [];
+	let usesDocumentState = false;
+
+	const incrementalParse = function (source: string, state: ParserState = { inline: false }) {
+		let stable: ASTNode[] = [];
+		if (
+			!state.inline &&
+			!usesDocumentState &&
+			previousSource !== null &&
+			source.startsWith(previousSource)
+		) {
+			stable = previousNodes.slice(0, countStableBlocks(previousNodes, previousSource));
+		}
+
+		let nodes: ASTNode[];
+		if (stable.length) {
+			// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+			const start = stable[stable.length - 1].position!.end;
+
+			// Heading ids after the reused blocks must not repeat the ones in them
+			const slugs: Record<string, boolean> = {};
+			visit(stable, (node) => {
+				if (node.type === 'heading') {
+					slugs[node.id] = true;
+				}
+			});
+			nodes = parser(source.slice(start.offset), { ...state, _slugs: slugs });
+			visit(nodes, (node) => {
+				if (node.position) {
+					shiftPoint(node.position.start, start);
+					shiftPoint(node.position.end, start);
+				}
+			});
+			nodes = stable.concat(nodes);
+		} else {
+			nodes = parser(source, state);
+			usesDocumentState = false;
+		}
+
+		usesDocumentState = usesDocumentState || usesDocumentNodes(nodes);
+		previousSource = state.inline ? null : source;
+		previousNodes = nodes;
+		return nodes;
+	};
+
+	return incrementalParse as P;
+}
@@ -1,5 +1,17 @@
 export * from './default-rules';
+export * from './errors';
+export * from './highlight';
+export * from './html';
+export * from './html-plugin';
+export * from './incremental';
+export * from './links';
 export * from './parser';
+export * from './plugins';
+export * from './presets';
 export * from './rule-list';
+export * from './stringify';
+export * from './toc';
 export * from './type';
 export * from './utilities';
+export * from './visit';
+export * from './worker';
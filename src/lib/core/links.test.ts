@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { resolveLink } from './links';
+
+describe('resolveLink', () => {
+	it('leaves out unsafe urls', () => {
+		expect(resolveLink('javascript:alert(1)', 'link')).toBeNull();
+		expect(resolveLink('data:text/html,hi', 'image')).toBeNull();
+	});
+
+	it('opens links to other sites in a new tab', () => {
+		expect(resolveLink('https://example.com/a', 'link')).toEqual({
+			url: 'https://example.com/a',
+			external: true,
+			rel: 'noopener noreferrer nofollow',
+			target: '_blank',
+			prefetch: false
+		});
+		expect(resolveLink('/a', 'link', { origin: 'https://example.com' })).toEqual({
+			url: '/a',
+			external: false,
+			rel: undefined,
+			target: undefined,
+			prefetch: true
+		});
+	});
+
+	it('checks protocols and hosts', () => {
+		const policy = { protocols: ['https:'], allowedHosts: ['*.example.com'] };
+		expect(resolveLink('http://example.com', 'link', policy)).toBeNull();
+		expect(resolveLink('https://other.com', 'link', policy)).toBeNull();
+		expect(resolveLink('https://cdn.example.com/a.png', 'image', policy)?.url).toBe(
+			'https://cdn.example.com/a.png'
+		);
+		expect(
+			resolveLink('https://ads.example.com', 'link', { deniedHosts: ['ads.example.com'] })
+		).toBeNull();
+	});
+
+	it('rewrites urls', () => {
+		const rewrite = (url: string, { kind }: { kind: string }) =>
+			kind === 'image' ? '/proxy?url=' + encodeURIComponent(url) : null;
+		expect(resolveLink('https://example.com/a.png', 'image', { rewrite })?.url).toBe(
+			'/proxy?url=https%3A%2F%2Fexample.com%2Fa.png'
+		);
+		expect(resolveLink('https://example.com', 'link', { rewrite })).toBeNull();
+	});
+});
@@ -0,0 +1,57 @@
+import type { LinkKind, LinkPolicy, ResolvedLink } from './type';
+import { sanitizeUrl } from './utilities';
+
+const DEFAULT_ORIGIN = 'https://localhost';
+
+function matchesHost(host: string, patterns: string[]) {
+	return patterns.some((pattern) => {
+		pattern = pattern.toLowerCase();
+		return pattern.startsWith('*.')
+			? host === pattern.slice(2) || host.endsWith(pattern.slice(1))
+			: host === pattern;
+	});
+}
+
+/**
+ * Checks a url of a link or image against a policy. Returns `null` when the url isn't allowed, or
+ * the url with the attributes its element should have.
+ */
+export function resolveLink(
+	url: string | undefined,
+	kind: LinkKind,
+	policy: LinkPolicy = {}
+): ResolvedLink | null {
+	const sanitized = sanitizeUrl(url);
+	if (sanitized == null) {
+		return null;
+	}
+
+	const base = new URL(policy.origin ?? DEFAULT_ORIGIN);
+	const parsed = new URL(sanitized, base);
+	if (policy.protocols && !policy.protocols.includes(parsed.protocol)) {
+		return null;
+	}
+
+	const hasHost = parsed.protocol === 'http:' || parsed.protocol === 'https:';
+	const external = hasHost && parsed.origin !== base.origin;
+	if (
+		(hasHost && policy.deniedHosts && matchesHost(parsed.hostname, policy.deniedHosts)) ||
+		(external && policy.allowedHosts && !matchesHost(parsed.hostname, policy.allowedHosts))
+	) {
+		return null;
+	}
+
+	const rewritten = policy.rewrite ? policy.rewrite(sanitized, { kind, external }) : undefined;
+	if (rewritten === null) {
+		return null;
+	}
+
+	const { rel = 'noopener noreferrer nofollow', target = '_blank', prefetch = true } = policy;
+	return {
+		url: rewritten ?? sanitized,
+		external,
+		rel: external && rel ? rel : undefined,
+		target: external && target ? target : undefined,
+		prefetch: prefetch && !external && hasHost
+	};
+}
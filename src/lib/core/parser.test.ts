@@ -0,0 +1,298 @@
+import { describe, expect, it } from 'vitest';
+import { defaultRules } from './default-rules';
+import { MarkdownParseError } from './errors';
+import { createParser } from './parser';
+import { RuleList } from './rule-list';
+import type { ASTNode, Parser, ParserState } from './type';
+import { blockRegex } from './utilities';
+
+const parse: Parser = createParser(defaultRules);
+
+// Searches list items too, which are arrays of nodes
+function findNode(nodes: (ASTNode | ASTNode[])[], type: string): ASTNode | undefined {
+	for (const node of nodes) {
+		if (!Array.isArray(node) && node.type === type) {
+			return node;
+		}
+		const children = Array.isArray(node) ? node : node.content;
+		const found = Array.isArray(children) ? findNode(children, type) : undefined;
+		if (found) {
+			return found;
+		}
+	}
+	return undefined;
+}
+
+describe('createParser', () => {
+	it('parses blocks and inline content', () => {
+		const nodes = parse('# Title\n\nSome *text*');
+		expect(nodes[0]).toMatchObject({ type: 'heading', level: 1 });
+		expect(findNode(nodes, 'em')?.content).toEqual([
+			expect.objectContaining({ type: 'text', content: 'text' })
+		]);
+	});
+
+	it('records source positions', () => {
+		const nodes = parse('para\n\n**bold**');
+		const strong = findNode(nodes, 'strong');
+		expect(strong?.position).toEqual({
+			start: { offset: 6, line: 3, column: 1 },
+			end: { offset: 14, line: 3, column: 9 }
+		});
+	});
+
+	it('records the positions of nested containers', () => {
+		const quote = parse('> > x')[0];
+		const innerQuote = (quote.content as ASTNode[])[0];
+		expect(innerQuote.type).toBe('blockQuote');
+		expect(innerQuote.position?.start.offset).toBe(2);
+		expect(findNode(innerQuote.content as ASTNode[], 'text')?.position?.start.offset).toBe(4);
+
+		const list = parse('- - nested')[0];
+		const innerList = findNode(list.content as ASTNode[], 'list');
+		expect(innerList?.position?.start.offset).toBe(2);
+		expect(findNode(innerList?.content as ASTNode[], 'text')?.position?.start.offset).toBe(4);
+	});
+
+	it('records the positions of the lines of nested containers', () => {
+		const nodes = parse('> a\n> > b\n> > c\n\n- one\n- two\n  - three');
+		const texts: [string, number | undefined][] = [];
+		const collect = (node: ASTNode | ASTNode[]) => {
+			if (Array.isArray(node)) {
+				node.forEach(collect);
+			} else if (node.type === 'text') {
+				texts.push([node.content as string, node.position?.start.offset]);
+			} else if (Array.isArray(node.content)) {
+				collect(node.content as ASTNode[]);
+			}
+		};
+		collect(nodes);
+		expect(texts).toEqual([
+			['a', 2],
+			['b\nc', 8],
+			['one', 19],
+			['two\n', 25],
+			['three', 33]
+		]);
+
+		// Paragraphs end with their own lines, not with the markers or items after them
+		const paragraphs = (source: string) => {
+			const ranges: string[] = [];
+			const collectParagraphs = (node: ASTNode | ASTNode[]) => {
+				if (Array.isArray(node)) {
+					node.forEach(collectParagraphs);
+				} else if (node.type === 'paragraph') {
+					const { start, end } = node.position || {};
+					ranges.push(source.slice(start?.offset, end?.offset));
+				} else if (Array.isArray(node.content)) {
+					collectParagraphs(node.content as ASTNode[]);
+				}
+			};
+			collectParagraphs(parse(source));
+			return ranges;
+		};
+		expect(paragraphs('- a\n\n  b\n- c')).toEqual(['a\n\n', 'b\n', 'c']);
+		expect(paragraphs('> a\n>\n> b')).toEqual(['a\n', 'b']);
+	});
+
+	it('records the positions of table cells', () => {
+		const offsets = (source: string) => {
+			const [table] = parse(source);
+			const rows = [table.header as ASTNode[][], ...(table.cells as ASTNode[][][])];
+			return rows.map((row) =>
+				row.map((cell) => cell.map((node) => [node.type, node.position?.start.offset]))
+			);
+		};
+		expect(offsets('| a | *b* |\n|---|---|\n| `c` | d |')).toEqual([
+			[[['text', 2]], [['em', 6]]],
+			[[['inlineCode', 24]], [['text', 30]]]
+		]);
+		expect(offsets('h1 | h2\n---|---\nx | `y`\nz | w')).toEqual([
+			[[['text', 0]], [['text', 5]]],
+			[[['text', 16]], [['inlineCode', 20]]],
+			[[['text', 24]], [['text', 28]]]
+		]);
+	});
+});
+
+describe('first character dispatch', () => {
+	it('gives the same result as trying every rule', () => {
+		// eslint-disable-next-line @typescript-eslint/no-unused-vars
+		const rules = new RuleList(defaultRules.map(({ firstChars, ...rule }) => rule));
+		const source =
+			'# Title\n\n> quote with *em*, `code` and [a link](/a)\n\n- [x] task\n  1. nested\n\n' +
+			'| a | b |\n| - | - |\n| 1 | 2 |\n\n```js\ncode\n```\n\ntext[^1] ~~del~~ <https://a.b>\n\n[^1]: note';
+		expect(createParser(rules)(source)).toEqual(parse(source));
+	});
+});
+
+describe('separate parses', () => {
+	// A rule that parses a quoted message as a document of its own, with the outer parser
+	function quotingParser() {
+		const rules = new RuleList(defaultRules);
+		rules.insertBefore('blockQuote', {
+			name: 'quotedMessage',
+			match: blockRegex(/^>>> ([^\n]*)\n*/),
+			parse: (capture) => ({ content: parser(capture[1], { inline: false }) })
+		});
+		const parser: Parser = createParser(rules);
+		return parser;
+	}
+
+	it("doesn't share defs between a document and a document parsed from within it", () => {
+		const parser = quotingParser();
+		const nodes = parser('>>> [a][ref]\n\n[b][ref]\n\n[ref]: https://example.com/outer\n');
+
+		const [quote] = nodes;
+		expect(quote.type).toBe('quotedMessage');
+		const inner = findNode(quote.content as ASTNode[], 'link');
+		expect(inner?.target).toBeUndefined();
+
+		const outer = findNode(nodes.slice(1), 'link');
+		expect(outer?.target).toBe('https://example.com/outer');
+	});
+
+	it("doesn't share heading ids between nested documents", () => {
+		const parser = quotingParser();
+		const nodes = parser('# Title\n\n>>> # Title\n\n# Title');
+		const quote = nodes.find((node) => node.type === 'quotedMessage');
+		const headings = nodes.filter((node) => node.type === 'heading');
+		expect(findNode(quote?.content as ASTNode[], 'heading')?.id).toBe('title');
+		expect(headings.map((node) => node.id)).toEqual(['title', 'title-1']);
+	});
+
+	it("doesn't share state between interleaved parses", () => {
+		const rules = new RuleList(defaultRules);
+		const parsers: Parser[] = [];
+		// Parses another document with the second parser in the middle of the first one
+		rules.insertBefore('paragraph', {
+			name: 'interrupt',
+			match: blockRegex(/^!interrupt\n*/),
+			parse: () => ({ content: parsers[1]('[x][ref]\n\n[ref]: https://example.com/second') })
+		});
+		parsers.push(createParser(rules), createParser(defaultRules));
+
+		const nodes = parsers[0]('[y][ref]\n\n!interrupt\n\n[ref]: https://example.com/first');
+		const links = [findNode(nodes.slice(0, 1), 'link'), findNode(nodes.slice(1), 'link')];
+		expect(links.map((link) => link?.target)).toEqual([
+			'https://example.com/first',
+			'https://example.com/second'
+		]);
+	});
+
+	it('parses the same source the same way each time', () => {
+		const source = '# Title\n\n[a][ref] and a footnote[^1]\n\n[ref]: /a\n[^1]: note';
+		const first = JSON.stringify(parse(source));
+		parse('# Title\n\n[ref]: /b\n[^1]: other');
+		expect(JSON.stringify(parse(source))).toBe(first);
+	});
+
+	it("doesn't change the given state", () => {
+		const state: ParserState = { inline: false, user: 'someone' };
+		parse('# Title\n\n[a][ref]\n\n[ref]: /a\n\n- list', state);
+		expect(state).toEqual({ inline: false, user: 'someone' });
+	});
+
+	it('gives the given state to rules', () => {
+		const rules = new RuleList(defaultRules);
+		const seen: unknown[] = [];
+		rules.insertBefore('text', {
+			name: 'mention',
+			match: (source) => /^@\w+/.exec(source),
+			parse: (capture, _, state) => {
+				seen.push(state.user);
+				return { type: 'text', content: capture[0] };
+			}
+		});
+		createParser(rules)('hi @you', { inline: true, user: 'someone' });
+		expect(seen).toEqual(['someone']);
+	});
+});
+
+describe('parser state', () => {
+	it('gives the state of a parse precedence over the default state', () => {
+		const rules = new RuleList(defaultRules);
+		const seen: unknown[] = [];
+		rules.insertBefore('text', {
+			name: 'mention',
+			match: (source) => /^@\w+/.exec(source),
+			parse: (capture, _, state) => {
+				seen.push([state.user, state.color]);
+				return { type: 'text', content: capture[0] };
+			}
+		});
+		const parser = createParser(rules, { user: 'default', color: 'red' });
+		parser('@a', { inline: true });
+		parser('@b', { inline: true, user: 'given' });
+		expect(seen).toEqual([
+			['default', 'red'],
+			['given', 'red']
+		]);
+	});
+});
+
+describe('limits', () => {
+	function parseWithErrors(source: string, limits: ParserState['limits']) {
+		const errors: MarkdownParseError[] = [];
+		const nodes = parse(source, {
+			inline: false,
+			recover: true,
+			limits,
+			onError: (error) => errors.push(error)
+		});
+		return { nodes, errors };
+	}
+
+	it('reports the block that goes over maxDepth', () => {
+		const source = 'text\n\n' + '> '.repeat(8) + 'x';
+		[2, 3, 5].forEach((maxDepth) => {
+			const { errors } = parseWithErrors(source, { maxDepth });
+			expect(errors.map((error) => [error.reason, error.offset])).toEqual([
+				['maxDepth', 6 + (maxDepth - 1) * 2]
+			]);
+		});
+	});
+
+	it('throws when not recovering', () => {
+		expect(() => parse('> > > x', { inline: false, limits: { maxDepth: 2 } })).toThrow(
+			MarkdownParseError
+		);
+	});
+
+	it('rejects deeply nested lists without parsing every level', () => {
+		let source = '';
+		for (let i = 0; i < 1000; i++) {
+			source += '  '.repeat(i) + '- item\n';
+		}
+
+		const start = Date.now();
+		const { nodes, errors } = parseWithErrors('para\n\n' + source, { maxDepth: 30 });
+		expect(Date.now() - start).toBeLessThan(5000);
+		expect(errors.map((error) => [error.reason, error.offset])).toEqual([['maxDepth', 6]]);
+		expect(nodes.some((node) => node.type === 'list')).toBe(false);
+	});
+
+	it('keeps lists that fit in maxDepth', () => {
+		const { nodes, errors } = parseWithErrors('- a\n  - b\n    - c', { maxDepth: 5 });
+		expect(errors).toEqual([]);
+		expect(findNode(nodes, 'list')).toBeDefined();
+	});
+});
+
+describe('recover', () => {
+	it('keeps text that no rule matches when rules are disabled', () => {
+		const rules = defaultRules.clone();
+		rules.disable('text');
+		const parser = createParser(rules);
+		expect(() => parser('plain words')).toThrow(MarkdownParseError);
+
+		const errors: MarkdownParseError[] = [];
+		const nodes = parser('plain words', {
+			inline: false,
+			recover: true,
+			onError: (error) => errors.push(error)
+		});
+		expect(errors[0].reason).toBe('noMatch');
+		expect(JSON.stringify(nodes)).toContain('plain words');
+	});
+});
@@ -1,33 +1,280 @@
 /* eslint-disable prefer-spread, no-regex-spaces, no-unused-vars, guard-for-in, no-console, prefer-const, @typescript-eslint/no-non-null-assertion */
 import type { RuleList } from './rule-list';
-import type { ASTNode, ParserState } from './type';
+import { MarkdownParseError } from './errors';
+import type {
+	ASTNode,
+	MarkdownParser,
+	ParseFunction,
+	Parser,
+	ParserRule,
+	ParserState,
+	SourcePoint,
+	TraceAttempt,
+	TraceStep
+} from './type';
 
-const CR_NEWLINE_R = /\r\n?/g;
-const TAB_R = /\t/g;
-const FORMFEED_R = /\f/g;
+/**
+ * Where each character of a string being parsed came from in the original source. Character `i`
+ * covers the original offsets `starts[i]` up to `ends[i]`.
+ */
+interface SourceMap {
+	source: string;
+	starts: number[];
+	ends: number[];
+	// The capture currently being parsed from `source`, so nested sources can be located in it.
+	captureStart: number;
+	captureEnd: number;
+	cursor: number;
+}
 
 /**
- * Turn various whitespace into easy-to-process whitespace
+ * A document being parsed. Each call of a parser has its own, so documents parsed from within a
+ * rule, or at the same time, don't share anything.
  */
-function preprocess(source: string) {
-	return source.replace(CR_NEWLINE_R, '\n').replace(FORMFEED_R, '').replace(TAB_R, '    ');
+interface ParseDocument {
+	/** The state of the innermost parse, for nested parses that aren't given one */
+	state: ParserState;
+	/** The parse function given to rules */
+	parse: Parser;
+	// The strings currently being parsed, innermost last, and where lines start in the original
+	// source. These are used to give every node a position in the original source.
+	sourceMaps: SourceMap[];
+	lineStarts: number[];
+	/** The number of nodes parsed so far, for `limits.maxNodes` */
+	nodeCount: number;
+	nodeLimitReached: boolean;
+}
+
+function createSourceMap(source: string, starts: number[], ends: number[]): SourceMap {
+	return {
+		source,
+		starts,
+		ends,
+		captureStart: 0,
+		captureEnd: 0,
+		cursor: 0
+	};
+}
+
+/**
+ * Turn various whitespace into easy-to-process whitespace, keeping track of where each resulting
+ * character came from. Characters past `inputLength` (such as the newlines added by the parser)
+ * are placed at the end of the input.
+ */
+function preprocess(source: string, inputLength: number) {
+	let result = '';
+	const starts: number[] = [];
+	const ends: number[] = [];
+
+	const add = (text: string, start: number, end: number) => {
+		result += text;
+		for (let i = 0; i < text.length; i++) {
+			starts.push(Math.min(start, inputLength));
+			ends.push(Math.min(end, inputLength));
+		}
+	};
+
+	for (let i = 0; i < source.length; i++) {
+		const chr = source[i];
+		if (chr === '\r') {
+			const end = source[i + 1] === '\n' ? i + 2 : i + 1;
+			add('\n', i, end);
+			i = end - 1;
+		} else if (chr === '\t') {
+			add('    ', i, i + 1);
+		} else if (chr !== '\f') {
+			add(chr, i, i + 1);
+		}
+	}
+
+	return createSourceMap(result, starts, ends);
 }
 
+/**
+ * Finds where a nested source came from within the capture `parent` is currently parsing. Rules
+ * pass on parts of their capture with characters removed (indentation, `>` markers, bullets) or
+ * added (trailing newlines), so the source is matched line by line: each of its lines is found in
+ * the matching line of the capture, preferring the end of it, since markers are removed from the
+ * start. Characters that cannot be found are treated as inserted.
+ *
+ * `offset` is where the source starts within the capture, when the rule gave it. Without it, the
+ * first line is searched for from where the last nested source of the capture ended.
+ */
+function locateNestedSource(source: string, parent: SourceMap, offset?: number) {
+	const text = parent.source;
+	const end = parent.captureEnd;
+
+	let j: number;
+	if (offset !== undefined) {
+		j = Math.min(parent.captureStart + offset, end);
+	} else {
+		// Nested parses of one capture usually happen in order, so carry on from where the last one
+		// ended, unless this source does not start there.
+		const firstLine = source.slice(0, source.indexOf('\n') + 1 || source.length);
+		const found = text.indexOf(firstLine, parent.cursor);
+		j = found !== -1 && found < end ? parent.cursor : parent.captureStart;
+	}
+
+	let insertAt = j < text.length ? parent.starts[j] : parent.ends[text.length - 1] || 0;
+	const starts: number[] = [];
+	const ends: number[] = [];
+
+	const map = (k: number) => {
+		starts.push(parent.starts[k]);
+		ends.push(parent.ends[k]);
+		insertAt = parent.ends[k];
+	};
+	const insert = () => {
+		starts.push(insertAt);
+		ends.push(insertAt);
+	};
+
+	// The newlines at the end may have been added by the rule, and have no line of their own
+	const contentEnd = source.replace(/\n+$/, '').length;
+
+	let lineStart = 0;
+	while (lineStart < source.length) {
+		const newline = source.indexOf('\n', lineStart);
+		const line = source.slice(lineStart, newline === -1 ? source.length : newline);
+
+		const parentNewline = text.indexOf('\n', j);
+		const lineEnd = parentNewline === -1 || parentNewline > end ? end : parentNewline;
+
+		// An empty line whose line in the capture isn't blank had its markers removed (`>`), or
+		// comes after the source's own content, where the capture goes on with other content.
+		// Either way its newline is inserted, and only lines of the source's content move on.
+		if (line === '' && !/^[ \t]*$/.test(text.slice(j, lineEnd))) {
+			insert();
+			if (lineStart < contentEnd) {
+				j = lineEnd < end ? lineEnd + 1 : end;
+			}
+			lineStart = newline + 1;
+			continue;
+		}
+
+		// The first line starts at the offset, the others end where the line of the capture ends
+		let found = -1;
+		if (j < end) {
+			found =
+				lineStart === 0 || !text.startsWith(line, lineEnd - line.length)
+					? text.indexOf(line, j)
+					: lineEnd - line.length;
+		}
+		if (found !== -1 && found >= j && found + line.length <= lineEnd) {
+			for (let k = found; k < found + line.length; k++) {
+				map(k);
+			}
+			j = found + line.length;
+		} else {
+			for (let i = 0; i < line.length; i++) {
+				const k = text.indexOf(line[i], j);
+				if (k !== -1 && k < lineEnd) {
+					map(k);
+					j = k + 1;
+				} else {
+					insert();
+				}
+			}
+		}
+
+		if (newline === -1) {
+			break;
+		}
+		if (lineEnd < end && text[lineEnd] === '\n') {
+			map(lineEnd);
+			j = lineEnd + 1;
+		} else {
+			insert();
+		}
+		lineStart = newline + 1;
+	}
+
+	parent.cursor = j;
+	return createSourceMap(source, starts, ends);
+}
+
+function findLineStarts(source: string) {
+	const lineStarts = [0];
+	for (let i = 0; i < source.length; i++) {
+		if (source[i] === '\n') {
+			lineStarts.push(i + 1);
+		}
+	}
+	return lineStarts;
+}
+
+function toSourcePoint(offset: number, lineStarts: number[]): SourcePoint {
+	let low = 0;
+	let high = lineStarts.length - 1;
+	while (low < high) {
+		const mid = (low + high + 1) >> 1;
+		if (lineStarts[mid] <= offset) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+
+	return {
+		offset,
+		line: low + 1,
+		column: offset - lineStarts[low] + 1
+	};
+}
+
+/**
+ * Creates the state of a document, without changing the given state. The state given to a parse
+ * takes precedence over the parser's default state.
+ */
 function populateInitialState(
 	givenState: Partial<ParserState>,
 	defaultState: Partial<ParserState>
 ) {
-	let state = givenState || {};
+	let state: Partial<ParserState> = { ...defaultState };
 
-	for (let prop in defaultState) {
-		if (Object.prototype.hasOwnProperty.call(defaultState, prop)) {
-			state[prop] = defaultState[prop];
+	for (let prop in givenState) {
+		if (Object.prototype.hasOwnProperty.call(givenState, prop)) {
+			state[prop] = givenState[prop];
 		}
 	}
 
 	return state as ParserState;
 }
 
+/**
+ * Which rules to try for each character a source can start with. Rules are given by their index in
+ * the rule list, and are kept in order.
+ */
+interface DispatchTable {
+	table: Record<string, number[]>;
+	/** The rules to try for characters not in `table`: the rules without `firstChars` */
+	fallback: number[];
+	/** For each index, the index of the first rule from there on without a `quality` function */
+	nextWithoutQuality: number[];
+}
+
+function createDispatchTable(rules: ParserRule[]): DispatchTable {
+	let indices = rules.map((_, i) => i);
+	let chars = new Set(rules.flatMap((rule) => (rule.firstChars || '').split('')));
+
+	let table: Record<string, number[]> = {};
+	chars.forEach((chr) => {
+		table[chr] = indices.filter((i) => {
+			let firstChars = rules[i].firstChars;
+			return firstChars === undefined || firstChars.includes(chr);
+		});
+	});
+	let fallback = indices.filter((i) => rules[i].firstChars === undefined);
+
+	let nextWithoutQuality: number[] = [];
+	nextWithoutQuality[rules.length] = rules.length;
+	for (let i = rules.length - 1; i >= 0; i--) {
+		nextWithoutQuality[i] = rules[i].quality ? nextWithoutQuality[i + 1] : i;
+	}
+
+	return { table, fallback, nextWithoutQuality };
+}
+
 /**
  * Creates a parser for a given set of rules, with the precedence
  * specified as a list of rules.
@@ -46,35 +293,105 @@ function populateInitialState(
  *         parsing, such as keeping track of how many levels deep
  *         some nesting is. For an example use-case, see passage-ref
  *         parsing in src/widgets/passage/passage-markdown.jsx
+ *
+ * Each call of the parser is separate: the given state is copied, and
+ * nothing is kept between calls. Rules can call the parser to parse a
+ * separate document, such as a quoted message, without mixing its defs,
+ * footnotes or heading ids with the document around it.
+ *
+ * The given state takes precedence over `defaultState`, so a single
+ * parse can override the options a parser was created with.
  */
-export function createParser(ruleListInput: RuleList, defaultState: Partial<ParserState> = {}) {
+export function createParser(
+	ruleListInput: RuleList,
+	defaultState: Partial<ParserState> = {}
+): MarkdownParser {
 	let rules = ruleListInput.toRuleObject();
 	let ruleList = Object.keys(rules);
+	let dispatch = createDispatchTable(ruleList.map((name) => rules[name]));
 
-	let latestState: ParserState;
+	// Throws the error, or reports it when the state is set to recover
+	let fail = function (error: MarkdownParseError, state: ParserState) {
+		if (!state.recover) {
+			throw error;
+		}
+		state.onError?.(error);
+	};
 
-	let nestedParse = function (source: string, state?: ParserState) {
+	let parseSourceMap = function (doc: ParseDocument, map: SourceMap, state?: ParserState) {
+		let source = map.source;
 		let result: ASTNode[] = [];
-		state = state || latestState;
-		latestState = state;
+		state = state || doc.state;
+		doc.state = state;
+
+		doc.sourceMaps.push(map);
+		let maxNodes = state.limits?.maxNodes;
+		let maxDepth = state.limits?.maxDepth;
+		let offsetOf = (index: number) => (map.starts.length ? map.starts[index] : index);
 
 		while (source) {
+			let start = map.source.length - source.length;
+
+			if (maxNodes !== undefined && doc.nodeCount >= maxNodes) {
+				// Reported once, by the first parse to reach the limit. Every
+				// parse keeps the rest of its source as text.
+				if (!doc.nodeLimitReached) {
+					doc.nodeLimitReached = true;
+					let message = 'The document has more than ' + maxNodes + ' nodes';
+					fail(new MarkdownParseError(message, 'maxNodes', offsetOf(start)), state);
+				}
+				result.push({ type: 'text', content: source });
+				break;
+			}
+
 			// store the best match, it's rule, and quality:
 			let ruleType = null;
 			let rule = null;
 			let capture = null;
 			let quality = NaN; // loop control variables:
 
-			let i = 0;
-			let currRuleType = ruleList[0];
+			// Only the rules that can start with the first character are tried.
+			// The rules in between can't match, but the search still has to
+			// stop where it would have if they were tried: at the first rule
+			// without a quality measurement function after a match.
+			let candidates = dispatch.table[source[0]] || dispatch.fallback;
+			let lastTried = -1;
+			let attempts: TraceAttempt[] | undefined = state.trace && [];
 
-			let currRule = rules[currRuleType];
+			for (let i of candidates) {
+				if (capture && dispatch.nextWithoutQuality[lastTried + 1] <= i) {
+					break;
+				}
+				lastTried = i;
 
-			do {
+				let currRuleType = ruleList[i];
+				let currRule = rules[currRuleType];
 				let currCapture = currRule.match(source, state);
 
-				if (currCapture) {
+				if (currCapture?.index) {
+					// If present and non-zero, i.e. a non-^ regexp result:
+					fail(
+						new MarkdownParseError(
+							'`match` must return a capture starting at index 0 ' +
+								'(the current parse index). Did you forget a ^ at the ' +
+								"start of the RegExp of '" +
+								currRuleType +
+								"'?",
+							'matchIndex',
+							offsetOf(start),
+							currRuleType
+						),
+						state
+					);
+					// When recovering, the rule is skipped
+					currCapture = null;
+				}
+
+				if (!currCapture) {
+					attempts?.push({ rule: currRuleType, capture: null });
+				} else {
 					let currQuality = currRule.quality ? currRule.quality(currCapture, state) : 0;
+					attempts?.push({ rule: currRuleType, capture: currCapture[0], quality: currQuality });
 
 					// This should always be true the first time because
 					// the initial quality is NaN (that's why there's the
@@ -86,49 +403,88 @@ export function createParser(ruleListInput: RuleList, defaultState: Partial<Pars
 						quality = currQuality;
 					}
 				}
+			}
 
-				// Move on to the next item.
-				// Note that this makes `currRule` be the next item
-				i++;
-				currRuleType = ruleList[i];
-				currRule = rules[currRuleType];
-			} while (
-				// keep looping while we're still within the ruleList
-				currRule &&
-				// if we don't have a match yet, continue
-				(!capture ||
-					// or if we have a match, but the next rule is
-					// at the same order, and has a quality measurement
-					// functions, then this rule must have a quality
-					// measurement function (since they are sorted before
-					// those without), and we need to check if there is
-					// a better quality match
-					currRule.quality)
-			);
-
-			// TODO(aria): Write tests for these
 			if (!rule || !capture || !ruleType) {
-				throw new Error(
-					'Could not find a matching rule for the below ' +
-						'content. The rule with highest `order` should ' +
-						'always match content provided to it. Check ' +
-						"the definition of `match` for '" +
-						ruleList[ruleList.length - 1] +
-						"'. It seems to not match the following source:\n" +
-						source
+				let lastRule = ruleList[ruleList.length - 1];
+				fail(
+					new MarkdownParseError(
+						'Could not find a matching rule for the below ' +
+							'content. The rule with highest `order` should ' +
+							'always match content provided to it. Check ' +
+							"the definition of `match` for '" +
+							lastRule +
+							"'. It seems to not match the following source:\n" +
+							source,
+						'noMatch',
+						offsetOf(start),
+						lastRule
+					),
+					state
 				);
+				// When recovering, the first character is kept as text, and
+				// the rules are tried again after it
+				rule = null;
+				ruleType = 'text';
+				capture = [source[0]] as RegExpMatchArray;
 			}
 
-			if (capture.index) {
-				// If present and non-zero, i.e. a non-^ regexp result:
-				throw new Error(
-					'`match` must return a capture starting at index 0 ' +
-						'(the current parse index). Did you forget a ^ at the ' +
-						'start of the RegExp?'
-				);
+			// Rules that know how deeply their capture nests are checked before
+			// parsing it, since finding out by parsing can take as long as
+			// parsing every level of it
+			if (rule?.nesting && maxDepth !== undefined) {
+				if (doc.sourceMaps.length + rule.nesting(capture) > maxDepth) {
+					let message = 'Parses are nested more than ' + maxDepth + ' levels deep';
+					fail(new MarkdownParseError(message, 'maxDepth', offsetOf(start), ruleType), state);
+					// When recovering, the capture is kept as text without parsing it
+					rule = null;
+				}
 			}
 
-			let parsed = rule.parse(capture, nestedParse, state);
+			// Added before parsing, so it comes before the steps of nested parses
+			let step: TraceStep | undefined;
+			if (attempts) {
+				step = {
+					offset: map.starts.length ? map.starts[start] : undefined,
+					depth: doc.sourceMaps.length,
+					inline: !!state.inline,
+					attempts,
+					winner: rule ? ruleType : null
+				};
+				state.trace!.push(step);
+			}
+
+			let end = Math.min(start + capture[0].length, map.source.length);
+			map.captureStart = map.cursor = start;
+			map.captureEnd = end;
+
+			let parsed: ReturnType<ParseFunction>;
+			if (!rule) {
+				parsed = { type: 'text', content: capture[0] };
+			} else {
+				let depth = doc.sourceMaps.length;
+				let inline = state.inline;
+				try {
+					parsed = rule.parse(capture, doc.parse, state);
+				} catch (error) {
+					if (!state.recover || error instanceof MarkdownParseError) {
+						throw error;
+					}
+					fail(
+						new MarkdownParseError(
+							"The rule '" + ruleType + "' could not parse its capture: " + error,
+							'parse',
+							offsetOf(start),
+							ruleType
+						),
+						state
+					);
+					// Undo what the failed parse left behind
+					doc.sourceMaps.length = depth;
+					state.inline = inline;
+					parsed = { type: 'text', content: capture[0] };
+				}
+			}
 
 			// We maintain the same object here so that rules can
 			// store references to the objects they return and
@@ -143,24 +499,74 @@ export function createParser(ruleListInput: RuleList, defaultState: Partial<Pars
 				parsed.type = ruleType;
 			}
 
+			if (!parsed.position && map.starts.length) {
+				parsed.position = {
+					start: toSourcePoint(map.starts[start], doc.lineStarts),
+					end: toSourcePoint(end > start ? map.ends[end - 1] : map.starts[start], doc.lineStarts)
+				};
+			}
+
 			// Collapse text nodes
-			if (parsed.type === 'text' && result[result.length - 1]?.type === 'text') {
-				result[result.length - 1].content += parsed.content;
+			let previous = result[result.length - 1];
+			if (parsed.type === 'text' && previous?.type === 'text') {
+				previous.content += parsed.content;
+				if (previous.position && parsed.position) {
+					previous.position.end = parsed.position.end;
+				}
+				if (step) {
+					step.node = previous;
+				}
 			} else {
 				result.push(parsed as ASTNode);
+				doc.nodeCount++;
+				if (step) {
+					step.node = parsed as ASTNode;
+				}
 			}
 
 			state.prevCapture = capture;
-			source = source.substring(state.prevCapture[0].length);
+			source = source.substring(capture[0].length);
 		}
+		doc.sourceMaps.pop();
 
 		return result;
 	};
 
-	let outerParse = function (source: string, state: ParserState = { inline: false }) {
-		latestState = populateInitialState(state, defaultState);
+	// Parses content from within a rule, as part of the same document
+	let nestedParse = function (
+		doc: ParseDocument,
+		source: string,
+		state?: ParserState,
+		offset?: number
+	) {
+		let parent = doc.sourceMaps[doc.sourceMaps.length - 1];
+		let currentState = state || doc.state;
+		let maxDepth = currentState.limits?.maxDepth;
+		if (maxDepth !== undefined && doc.sourceMaps.length >= maxDepth) {
+			let offset = parent?.starts.length ? parent.starts[parent.captureStart] : 0;
+			let message = 'Parses are nested more than ' + maxDepth + ' levels deep';
+			fail(new MarkdownParseError(message, 'maxDepth', offset), currentState);
+			return [{ type: 'text', content: source }];
+		}
+
+		// Without a parent there is no way to know where this source came from, so positions are
+		// left out.
+		let map = parent ? locateNestedSource(source, parent, offset) : createSourceMap(source, [], []);
+		return parseSourceMap(doc, map, state);
+	};
+
+	let outerParse = function (source: string, givenState: ParserState = { inline: false }) {
+		let state = populateInitialState(givenState, defaultState);
+		let input = source;
 
-		if (!latestState.inline && !latestState.disableAutoBlockNewlines) {
+		let maxLength = state.limits?.maxLength;
+		if (maxLength !== undefined && source.length > maxLength) {
+			let message = 'The source is longer than ' + maxLength + ' characters';
+			fail(new MarkdownParseError(message, 'maxLength', maxLength), state);
+			return [{ type: 'text', content: source }];
+		}
+
+		if (!state.inline && !state.disableAutoBlockNewlines) {
 			source = source + '\n\n';
 		}
 
@@ -169,9 +575,21 @@ export function createParser(ruleListInput: RuleList, defaultState: Partial<Pars
 		// ensure they don't match arbitrary '- ' or '* ' in inline
 		// text (see the list rule for more information). This stores
 		// the full regex capture object, if there is one.
-		latestState.prevCapture = undefined;
-		return nestedParse(preprocess(source), latestState);
+		state.prevCapture = undefined;
+
+		let doc: ParseDocument = {
+			state,
+			parse: (nestedSource, nestedState, offset) =>
+				nestedParse(doc, nestedSource, nestedState, offset),
+			sourceMaps: [],
+			lineStarts: findLineStarts(input),
+			nodeCount: 0,
+			nodeLimitReached: false
+		};
+		return parseSourceMap(doc, preprocess(source, input.length), state);
 	};
 
-	return outerParse;
+	// The nodes are only as precise as the rules' parse functions, which are
+	// expected to match `MarkdownNodeTypes`.
+	return outerParse as MarkdownParser;
 }
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { defaultRules } from './default-rules';
+import { applyPlugins, type MarkdownPlugin, type PluginRule } from './plugins';
+
+function rule(name: string, anchor: Partial<PluginRule> = { before: 'text' }): PluginRule {
+	return { name, match: () => null, parse: () => ({}), ...anchor };
+}
+
+const names = (plugins: MarkdownPlugin[]) => Array.from(applyPlugins(plugins).rules, (r) => r.name);
+
+describe('applyPlugins', () => {
+	it('adds rules, renderers and state without changing the base rules', () => {
+		const Renderer = class {};
+		const applied = applyPlugins([
+			{
+				name: 'mention',
+				rules: [{ ...rule('mention'), svelte: Renderer }],
+				state: { mentions: true },
+				renderers: { user: Renderer },
+				html: { mention: () => '@' }
+			}
+		]);
+		const ruleNames = Array.from(applied.rules, (r) => r.name);
+		expect(ruleNames.indexOf('mention')).toBe(ruleNames.indexOf('text') - 1);
+		expect(applied.rules.get('mention')).not.toHaveProperty('before');
+		expect(applied.renderers).toEqual({ mention: Renderer, user: Renderer });
+		expect(applied.state).toEqual({ mentions: true });
+		expect(Object.keys(applied.html)).toEqual(['mention']);
+		expect(defaultRules.get('mention')).toBeUndefined();
+	});
+
+	it('anchors rules to rules of later plugins', () => {
+		const ruleNames = names([
+			{ name: 'first', rules: [rule('a', { after: 'b' })] },
+			{ name: 'second', rules: [rule('b', { before: 'text' })] }
+		]);
+		expect(ruleNames.slice(ruleNames.indexOf('b'))).toEqual(['b', 'a', 'text']);
+	});
+
+	it('reports every conflict together', () => {
+		const apply = () =>
+			applyPlugins([
+				{
+					name: 'first',
+					rules: [rule('em'), rule('a', { before: 'missing' }), rule('b', {})],
+					state: { option: 1 },
+					renderers: { mention: 'first' },
+					html: { mention: () => '' }
+				},
+				{
+					name: 'second',
+					rules: [rule('a', { after: 'text' })],
+					state: { option: 2 },
+					renderers: { mention: 'second' },
+					html: { mention: () => '' }
+				}
+			]);
+		expect(apply).toThrow(
+			'Could not apply markdown plugins:\n' +
+				'Rule em of plugin first already exists\n' +
+				'Rule a of plugin second is already given by plugin first\n' +
+				'Renderer mention of plugin second is already given by plugin first\n' +
+				'State option of plugin second is already given by plugin first\n' +
+				'Html renderer mention of plugin second is already given by plugin first\n' +
+				'Rule a of plugin first is anchored to missing, which does not exist\n' +
+				'Rule b of plugin first needs a before or after'
+		);
+	});
+});
@@ -0,0 +1,136 @@
+import { defaultRules } from './default-rules';
+import type { RuleList } from './rule-list';
+import type { HtmlRenderers, ParserRule, ParserState } from './type';
+
+/** A rule of a plugin, with the rule it goes before or after */
+export interface PluginRule extends ParserRule {
+	before?: string;
+	after?: string;
+}
+
+/**
+ * Rules, renderers and state that make up one extension. `Renderer` is the type of component used
+ * by a framework, such as a Svelte component.
+ */
+export interface MarkdownPlugin<Renderer = unknown> {
+	name: string;
+	/**
+	 * Rules to add. Each needs a `before` or `after`, which can name a rule of the base list or of
+	 * any other plugin. Rules can write their nodes back to markdown with `stringify`, and render
+	 * them with the Svelte component in `svelte`.
+	 */
+	rules?: PluginRule[];
+	/** Default parser state, such as options for the plugin's rules */
+	state?: Partial<ParserState>;
+	/** Components for node types that aren't the name of one of `rules`, such as `link` */
+	renderers?: Record<string, Renderer>;
+	/** Html renderers for `renderToHtml`, by node type */
+	html?: HtmlRenderers;
+}
+
+export interface AppliedPlugins<Renderer = unknown> {
+	rules: RuleList;
+	state: Partial<ParserState>;
+	renderers: Record<string, Renderer>;
+	html: HtmlRenderers;
+}
+
+/**
+ * Adds the rules of plugins to a copy of `rules`, and collects their state and renderers. A rule's
+ * `svelte` component becomes the renderer for its name. Every conflict between the plugins is
+ * collected, and thrown together as one error: rules that already exist, rules whose anchor
+ * doesn't exist, and state or renderers given by more than one plugin.
+ */
+export function applyPlugins<Renderer>(
+	plugins: MarkdownPlugin<Renderer>[],
+	rules: RuleList = defaultRules
+): AppliedPlugins<Renderer> {
+	const result: AppliedPlugins<Renderer> = {
+		rules: rules.clone(),
+		state: {},
+		renderers: {},
+		html: {}
+	};
+	const conflicts: string[] = [];
+	const owners: Record<string, string> = {};
+
+	const claim = (kind: string, key: string, plugin: string) => {
+		const owner = owners[kind + ' ' + key];
+		if (owner) {
+			conflicts.push(`${kind} ${key} of plugin ${plugin} is already given by plugin ${owner}`);
+			return false;
+		}
+		owners[kind + ' ' + key] = plugin;
+		return true;
+	};
+
+	let pending: { plugin: string; rule: PluginRule }[] = [];
+	plugins.forEach((plugin) => {
+		plugin.rules?.forEach((rule) => {
+			if (result.rules.get(rule.name)) {
+				conflicts.push(`Rule ${rule.name} of plugin ${plugin.name} already exists`);
+			} else if (claim('Rule', rule.name, plugin.name)) {
+				pending.push({ plugin: plugin.name, rule });
+			}
+
+			if (rule.svelte && claim('Renderer', rule.name, plugin.name)) {
+				result.renderers[rule.name] = rule.svelte as unknown as Renderer;
+			}
+		});
+
+		for (const type in plugin.renderers) {
+			if (claim('Renderer', type, plugin.name)) {
+				result.renderers[type] = plugin.renderers[type];
+			}
+		}
+
+		for (const key in plugin.state) {
+			if (claim('State', key, plugin.name)) {
+				result.state[key] = plugin.state[key];
+			}
+		}
+
+		for (const type in plugin.html) {
+			if (claim('Html renderer', type, plugin.name)) {
+				result.html[type] = plugin.html[type];
+			}
+		}
+	});
+
+	// Rules can be anchored to rules of plugins that come later, so keep
+	// inserting until no more rules can be placed.
+	let inserted = true;
+	while (pending.length && inserted) {
+		inserted = false;
+		pending = pending.filter(({ rule }) => {
+			const { before, after, ...parserRule } = rule;
+			const anchor = before ?? after;
+			if (anchor === undefined || !result.rules.get(anchor)) {
+				return true;
+			}
+
+			if (before !== undefined) {
+				result.rules.insertBefore(before, parserRule);
+			} else {
+				result.rules.insertAfter(anchor, parserRule);
+			}
+			inserted = true;
+			return false;
+		});
+	}
+
+	pending.forEach(({ plugin, rule }) => {
+		const anchor = rule.before ?? rule.after;
+		conflicts.push(
+			anchor === undefined
+				? `Rule ${rule.name} of plugin ${plugin} needs a before or after`
+				: `Rule ${rule.name} of plugin ${plugin} is anchored to ${anchor}, which does not exist`
+		);
+	});
+
+	if (conflicts.length) {
+		throw new Error('Could not apply markdown plugins:\n' + conflicts.join('\n'));
+	}
+
+	return result;
+}
@@ -0,0 +1,68 @@
+import { defaultRules } from './default-rules';
+import { RuleList } from './rule-list';
+import { anyScopeRegex, inlineRegex, parseInline } from './utilities';
+
+// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+const getRule = (rules: RuleList, name: string) => rules.get(name)!;
+
+/**
+ * GitHub flavored markdown. The default rules already cover tables, task lists, strikethrough,
+ * footnotes and bare urls, so the only difference is that `__text__` is bold instead of
+ * underlined.
+ */
+export const gfmRules = defaultRules.clone();
+gfmRules.replace('u', {
+	...getRule(gfmRules, 'u'),
+	parse(capture, parse, state) {
+		return {
+			type: 'strong',
+			content: parseInline(parse, capture[1], state)
+		};
+	}
+});
+
+/**
+ * Inline formatting only, for titles and other single line text: emphasis and inline code, but no
+ * links, images or blocks. Parse with `{ inline: true }`.
+ */
+export const titleRules = new RuleList(
+	defaultRules.filter((rule) =>
+		['escape', 'em', 'strong', 'u', 'del', 'inlineCode', 'text'].includes(rule.name)
+	)
+);
+
+/**
+ * Chat messages, where a single newline is a line break, like in Discord. Headings and tables are
+ * turned off.
+ */
+export const chatRules = defaultRules.clone();
+chatRules.disable('headings', 'tables');
+chatRules.replace('br', {
+	...getRule(chatRules, 'br'),
+	firstChars: ' \n',
+	match: inlineRegex(/^ *\n/)
+});
+chatRules.replace('text', {
+	...getRule(chatRules, 'text'),
+	// Same as the default, but stops at every newline so `br` can match it
+	match: anyScopeRegex(/^[\s\S]+?(?=[^0-9A-Za-z\s\u00c0-\uffff]|\n| {2,}\n|\w+:\S|$)/)
+});
+
+/**
+ * Comments from untrusted users. Images and links that aren't written as `[text](url)`, such as
+ * bare urls and `<autolinks>`, are kept as the text they were written as.
+ */
+export const commentRules = defaultRules.clone();
+commentRules.disable('autolink', 'mailto', 'url');
+commentRules.getGroup('images').forEach((rule) => {
+	// Without these, the `[alt](url)` of an image would become a link
+	commentRules.replace(rule.name, {
+		...rule,
+		parse(capture) {
+			return {
+				type: 'text',
+				content: capture[0]
+			};
+		}
+	});
+});
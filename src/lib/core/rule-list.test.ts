@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { RuleList } from './rule-list';
+import type { ParserRule } from './type';
+
+function rule(name: string, groups?: string[]): ParserRule {
+	return { name, groups, match: () => null, parse: () => ({}) };
+}
+
+function createList() {
+	return new RuleList([rule('a'), rule('b', ['inline']), rule('c', ['inline']), rule('d')]);
+}
+
+const names = (rules: ParserRule[]) => Array.from(rules, (r) => r.name);
+
+describe('RuleList', () => {
+	it('inserts, replaces and moves rules', () => {
+		const rules = createList();
+		rules.insertBefore('b', rule('x'));
+		rules.insertAfter('d', rule('y'));
+		rules.replace('a', rule('z'));
+		rules.moveAfter('z', 'c');
+		expect(names(rules)).toEqual(['x', 'b', 'c', 'z', 'd', 'y']);
+	});
+
+	it('throws for rules that do not exist', () => {
+		expect(() => createList().remove('missing')).toThrow('Rule missing not found');
+		expect(() => createList().disable('missing')).toThrow('Rule or group missing not found');
+	});
+
+	it('disables and enables rules by name or group', () => {
+		const rules = createList();
+		rules.disable('inline', 'd');
+		expect(Object.keys(rules.toRuleObject())).toEqual(['a']);
+		expect(rules.isEnabled('b')).toBe(false);
+
+		rules.enable('c');
+		expect(Object.keys(rules.toRuleObject())).toEqual(['a', 'c']);
+		expect(names(rules)).toEqual(['a', 'b', 'c', 'd']);
+	});
+
+	it('forgets removed rules, and keeps replaced rules disabled', () => {
+		const rules = createList();
+		rules.disable('a', 'b');
+		rules.remove('a');
+		rules.add(rule('a'));
+		expect(rules.isEnabled('a')).toBe(true);
+
+		rules.replace('b', rule('x'));
+		expect(rules.isEnabled('x')).toBe(false);
+		rules.add(rule('b'));
+		expect(rules.isEnabled('b')).toBe(true);
+	});
+
+	it('keeps disabled rules disabled in clones, without sharing them', () => {
+		const rules = createList();
+		rules.disable('b');
+		const clone = rules.clone();
+		clone.enable('b');
+		expect(rules.isEnabled('b')).toBe(false);
+		expect(clone.isEnabled('b')).toBe(true);
+	});
+
+	it('gives plain arrays from filter, map and slice', () => {
+		const rules = createList();
+		rules.disable('b');
+		const derived = [rules.filter(() => true), rules.slice(), rules.map((r) => r)];
+		derived.forEach((list) => {
+			expect(list).not.toBeInstanceOf(RuleList);
+			expect(Object.keys(list)).toEqual(['0', '1', '2', '3']);
+		});
+		expect(rules.isEnabled('b')).toBe(false);
+	});
+
+	it('finds the rules of a group', () => {
+		expect(names(createList().getGroup('inline'))).toEqual(['b', 'c']);
+	});
+});
@@ -1,33 +1,62 @@
 import type { ParserRule } from './type';
 
+/**
+ * The rules of a parser, in order of precedence. `filter`, `map`, `slice` and the other methods
+ * that make a new array give plain arrays, since they can't keep which rules are disabled. Use
+ * `clone` to copy a list with its disabled rules.
+ */
 export class RuleList extends Array<ParserRule> {
+	/** Names of the rules that are left out of parsers, but keep their place in the list */
+	private disabled = new Set<string>();
+
+	static get [Symbol.species]() {
+		return Array;
+	}
+
 	constructor(input?: ArrayLike<ParserRule>) {
 		super();
 		if (input) {
 			this.push(...Array.from(input));
+			if (input instanceof RuleList) {
+				this.disabled = new Set(input.disabled);
+			}
 		}
 	}
 
-	insertBefore(rule: string, newRule: ParserRule): void {
+	private indexOfRule(rule: string) {
 		const index = this.findIndex((r) => r.name === rule);
 		if (index === -1) {
 			throw new Error(`Rule ${rule} not found`);
 		}
-		this.splice(index, 0, newRule);
+		return index;
 	}
 
-	insertAfter(rule: string, newRule: ParserRule): void {
-		const index = this.findIndex((r) => r.name === rule);
-		if (index === -1) {
-			throw new Error(`Rule ${rule} not found`);
+	/** Finds the names of the rules `name` refers to, either a single rule or a group */
+	private resolve(name: string) {
+		const names = this.filter((r) => r.name === name || r.groups?.includes(name)).map(
+			(r) => r.name
+		);
+		if (!names.length) {
+			throw new Error(`Rule or group ${name} not found`);
 		}
-		this.splice(index + 1, 0, newRule);
+		return names;
 	}
 
+	insertBefore(rule: string, newRule: ParserRule): void {
+		this.splice(this.indexOfRule(rule), 0, newRule);
+	}
+
+	insertAfter(rule: string, newRule: ParserRule): void {
+		this.splice(this.indexOfRule(rule) + 1, 0, newRule);
+	}
+
+	/** The enabled rules, by name */
 	toRuleObject(): Record<string, ParserRule> {
 		const result: Record<string, ParserRule> = {};
 		this.forEach((rule) => {
-			result[rule.name] = rule;
+			if (!this.disabled.has(rule.name)) {
+				result[rule.name] = rule;
+			}
 		});
 		return result;
 	}
@@ -40,12 +69,54 @@ export class RuleList extends Array<ParserRule> {
 		return this.find((r) => r.name === rule);
 	}
 
+	/** The rules in a group, in order */
+	getGroup(group: string): ParserRule[] {
+		return this.filter((r) => r.groups?.includes(group));
+	}
+
 	remove(rule: string): void {
-		const index = this.findIndex((r) => r.name === rule);
-		if (index === -1) {
-			throw new Error(`Rule ${rule} not found`);
+		this.splice(this.indexOfRule(rule), 1);
+		this.disabled.delete(rule);
+	}
+
+	/** Puts `newRule` in the place of `rule`. If `rule` was disabled, `newRule` is too. */
+	replace(rule: string, newRule: ParserRule): void {
+		this.splice(this.indexOfRule(rule), 1, newRule);
+		if (this.disabled.delete(rule)) {
+			this.disabled.add(newRule.name);
 		}
-		this.splice(index, 1);
+	}
+
+	/** Moves `rule` to just before `anchor` */
+	moveBefore(rule: string, anchor: string): void {
+		this.indexOfRule(anchor);
+		const [moved] = this.splice(this.indexOfRule(rule), 1);
+		this.splice(this.indexOfRule(anchor), 0, moved);
+	}
+
+	/** Moves `rule` to just after `anchor` */
+	moveAfter(rule: string, anchor: string): void {
+		this.indexOfRule(anchor);
+		const [moved] = this.splice(this.indexOfRule(rule), 1);
+		this.splice(this.indexOfRule(anchor) + 1, 0, moved);
+	}
+
+	/**
+	 * Leaves rules out of parsers created from this list, by rule name or group name. Disabled rules
+	 * keep their place, so they can be enabled again later.
+	 */
+	disable(...names: string[]): void {
+		names.flatMap((name) => this.resolve(name)).forEach((name) => this.disabled.add(name));
+	}
+
+	/** Enables rules that were disabled, by rule name or group name */
+	enable(...names: string[]): void {
+		names.flatMap((name) => this.resolve(name)).forEach((name) => this.disabled.delete(name));
+	}
+
+	isEnabled(rule: string): boolean {
+		this.indexOfRule(rule);
+		return !this.disabled.has(rule);
 	}
 
 	clone() {
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { defaultRules } from './default-rules';
+import { createParser } from './parser';
+import { stringify } from './stringify';
+
+const parse = createParser(defaultRules);
+
+describe('stringify', () => {
+	it.each([
+		['# Heading\n\nA paragraph with *em*, **strong** and `code`.'],
+		['- one\n- two\n  - nested'],
+		['1. first\n2. second'],
+		['> a quote'],
+		['```js\nconst a = 1;\n```'],
+		['[link](https://example.com "title") and ![image](/image.png)'],
+		['| a | b |\n| --- | --- |\n| 1 | 2 |'],
+		['- [x] done\n- [ ] not done']
+	])('writes markdown that parses the same: %j', (source) => {
+		const nodes = parse(source);
+		const written = stringify(nodes);
+		expect(JSON.stringify(parse(written), ['type', 'content', 'target', 'checked'])).toBe(
+			JSON.stringify(nodes, ['type', 'content', 'target', 'checked'])
+		);
+	});
+
+	it.each([
+		['[l](</a b> "t") and ![i](<x y.png>)'],
+		['[l](/a\\(b\\) "say \\"hi\\"")'],
+		['[a][ref]\n\n[ref]: </a b> "say \\"hi\\""'],
+		['[a][ref]\n\n[ref]: /a "say "hi""']
+	])('writes link targets and titles that parse the same: %j', (source) => {
+		const nodes = parse(source);
+		const fields = ['type', 'content', 'target', 'title', 'def'];
+		expect(JSON.stringify(parse(stringify(nodes)), fields)).toBe(JSON.stringify(nodes, fields));
+	});
+
+	it('writes targets with spaces in angle brackets', () => {
+		const nodes = parse('[l](</a b> "t")\n\n[ref]: </c d> "say \\"hi\\""');
+		expect(stringify(nodes)).toBe('[l](</a b> "t")\n\n[ref]: </c d> "say \\"hi\\""');
+		expect(nodes.find((node) => node.type === 'def')).toMatchObject({
+			target: '/c d',
+			title: 'say "hi"'
+		});
+	});
+
+	it('writes inline nodes with an inline state', () => {
+		const nodes = parse('some **bold** text', { inline: true });
+		expect(stringify(nodes, defaultRules, { inline: true })).toBe('some **bold** text');
+	});
+
+	it('writes the content of nodes without a stringify function', () => {
+		expect(stringify([{ type: 'custom', content: [{ type: 'text', content: 'inside' }] }])).toBe(
+			'inside'
+		);
+	});
+});
@@ -0,0 +1,45 @@
+import { defaultRules } from './default-rules';
+import type { RuleList } from './rule-list';
+import type { ASTNode, StringifyFunction, StringifyOutput, StringifyState } from './type';
+
+/**
+ * Turns an AST back into markdown. Each node is written by the `stringify` function of the rule
+ * with the same name as the node's type, so custom rules in `rules` can provide their own. Nodes
+ * without one are replaced by their content.
+ *
+ * Pass `{ inline: true }` as the state when stringifying the result of an inline parse.
+ */
+export function stringify(
+	nodes: ASTNode | ASTNode[],
+	rules: RuleList = defaultRules,
+	state: Partial<StringifyState> = {}
+) {
+	const serializers: Record<string, StringifyFunction> = {};
+	rules.forEach((rule) => {
+		if (rule.stringify) {
+			serializers[rule.name] = rule.stringify;
+		}
+	});
+
+	const output: StringifyOutput = (node, state) => {
+		if (Array.isArray(node)) {
+			const results = node.map((child) => output(child, state));
+			// Blocks are separated by blank lines, and nodes that have no output
+			// (such as `newline`) are left out.
+			return state.inline ? results.join('') : results.filter(Boolean).join('\n\n');
+		}
+
+		const serializer = serializers[node.type];
+		if (serializer) {
+			return serializer(node, output, state);
+		} else if (typeof node.content === 'string') {
+			return node.content;
+		} else if (node.content) {
+			return output(node.content as ASTNode[], state);
+		} else {
+			return '';
+		}
+	};
+
+	return output(nodes, { inline: false, ...state });
+}
@@ -0,0 +1,35 @@
+import type { ASTNode, TocEntry } from './type';
+import { textContent } from './utilities';
+
+/**
+ * Lists the headings of a document as a nested outline, where each heading contains the deeper
+ * headings after it. Only headings at the top level of the document are included, not ones inside
+ * of lists or block quotes.
+ */
+export function extractToc(nodes: ASTNode[]) {
+	const root: TocEntry[] = [];
+	const stack: TocEntry[] = [];
+
+	nodes.forEach((node) => {
+		if (node.type !== 'heading') {
+			return;
+		}
+
+		const entry: TocEntry = {
+			id: node.id,
+			level: node.level,
+			text: textContent(node.content as ASTNode[]),
+			children: []
+		};
+
+		while (stack.length && stack[stack.length - 1].level >= entry.level) {
+			stack.pop();
+		}
+
+		const parent = stack[stack.length - 1];
+		(parent ? parent.children : root).push(entry);
+		stack.push(entry);
+	});
+
+	return root;
+}
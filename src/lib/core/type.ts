@@ -1,11 +1,19 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import type { MarkdownParseError } from './errors';
 
 type Multiple<T> = T | T[];
 type Nullable<T> = T | null | undefined;
 
 export type MatchFunction = (source: string, state: ParserState) => Nullable<RegExpMatchArray>;
 
-export type Parser = (source: string, state?: ParserState) => ASTNode[];
+/**
+ * Parses a source. Rules can give the nested parser the `offset` in their capture where the
+ * source starts, which places the positions of its nodes more precisely.
+ */
+export type Parser = (source: string, state?: ParserState, offset?: number) => ASTNode[];
+
+/** A parser for the nodes of the default rules and custom rules in `MarkdownNodeTypes` */
+export type MarkdownParser = (source: string, state?: ParserState) => MarkdownNode[];
 
 export type ParseFunction = (
 	source: RegExpMatchArray,
@@ -15,23 +23,125 @@ export type ParseFunction = (
 
 export type QualityFunction = (capture: RegExpMatchArray, state: ParserState) => number;
 
+/** Limits for parsing untrusted content. Going over them is an error, see `ParserState.recover`. */
+export interface ParserLimits {
+	/** The longest source that can be parsed */
+	maxLength?: number;
+	/**
+	 * How deep parses can be nested. Every block quote, list item and paragraph parses its content
+	 * again, so a list in a block quote is about four levels deep.
+	 */
+	maxDepth?: number;
+	/** The most nodes a document can have */
+	maxNodes?: number;
+}
+
 export interface ParserState {
 	inline: boolean;
 	prevCapture?: RegExpMatchArray;
+	/** Turns the text of a heading into its id, `slugify` by default */
+	slugger?: (text: string) => string;
+	/**
+	 * Instead of throwing a `MarkdownParseError`, keeps the source that caused it as text and
+	 * continues parsing. The error is given to `onError`.
+	 */
+	recover?: boolean;
+	onError?: (error: MarkdownParseError) => void;
+	limits?: ParserLimits;
+	/**
+	 * Records every place the parser picked a rule, in order, with every rule it tried there. Each
+	 * parse adds to the array, so give a new one for each parse.
+	 */
+	trace?: TraceStep[];
 	[key: string]: any;
 }
 
+/** A rule tried by the parser, see `ParserState.trace` */
+export interface TraceAttempt {
+	rule: string;
+	/** The text the rule matched, or null if it didn't match */
+	capture: string | null;
+	/** The quality of the match, 0 for rules without `quality` */
+	quality?: number;
+}
+
+/** The rules tried at one place in the source, and the one that won */
+export interface TraceStep {
+	/** Offset in the original source, if it is known */
+	offset?: number;
+	/** How deeply the parse is nested, 1 for the document itself */
+	depth: number;
+	inline: boolean;
+	attempts: TraceAttempt[];
+	/** The rule that was picked, or null if none matched */
+	winner: string | null;
+	/** The resulting node. Text that is joined with the text before it has the joined node. */
+	node?: ASTNode;
+}
+
+export interface StringifyState {
+	inline: boolean;
+	inTable?: boolean;
+	[key: string]: any;
+}
+
+export type StringifyOutput = (node: ASTNode | ASTNode[], state: StringifyState) => string;
+
+export type StringifyFunction = (
+	node: ASTNode,
+	output: StringifyOutput,
+	state: StringifyState
+) => string;
+
 export interface ParserRule {
 	name: string;
 	match: MatchFunction;
 	parse: ParseFunction;
 	quality?: QualityFunction;
-	svelte?: Svelte2TsxComponent;
+	/**
+	 * Every character a match of this rule can start with. The rule is only tried where the source
+	 * starts with one of them. Leave this out for rules that can start with any character.
+	 */
+	firstChars?: string;
+	/**
+	 * The fewest levels of nested parses a capture needs, such as how deeply a list nests. Captures
+	 * that would go over `limits.maxDepth` are rejected before they are parsed, so deeply nested
+	 * input doesn't have to be parsed level by level to find out.
+	 */
+	nesting?: (capture: RegExpMatchArray) => number;
+	/** Turns nodes with the same type as this rule's name back into markdown */
+	stringify?: StringifyFunction;
+	/**
+	 * The properties of this rule's nodes that hold child nodes, used by `visit` and `transform`.
+	 * Defaults to `content`, when it isn't a string.
+	 */
+	children?: string[];
+	/** Names of groups this rule is in, which can be enabled and disabled together */
+	groups?: string[];
+	/** The Svelte component that renders this rule's nodes, see `createMarkdownConfig` */
+	svelte?: new (...args: any[]) => unknown;
+}
+
+/** A point in the original source string given to the parser */
+export interface SourcePoint {
+	/** Zero-based character offset */
+	offset: number;
+	/** One-based line number */
+	line: number;
+	/** One-based column number */
+	column: number;
+}
+
+/** The range of the original source string that a node was parsed from. `end` is exclusive. */
+export interface SourcePosition {
+	start: SourcePoint;
+	end: SourcePoint;
 }
 
 export interface ASTNode {
 	type: string;
-	content?: ASTNode[] | string;
+	content?: ASTNode[] | ASTNode[][] | string;
+	position?: SourcePosition;
 	[key: string]: any;
 }
 
@@ -45,4 +155,290 @@ export interface RefNode {
 	target?: string;
 	title?: string;
 	alt?: string;
+	ref?: string;
+}
+
+export type HtmlOutput = (node: ASTNode | ASTNode[]) => string;
+
+export type HtmlRenderer = (node: ASTNode, output: HtmlOutput) => string;
+
+export type HtmlRenderers = Record<string, HtmlRenderer>;
+
+export interface TocEntry {
+	id: string;
+	level: number;
+	text: string;
+	children: TocEntry[];
+}
+
+/** A piece of highlighted code. Tokens without a `className` are written as plain text. */
+export interface HighlightToken {
+	content: string;
+	className?: string;
 }
+
+/** Either tokens, or a string of html that is already safe to render */
+export type HighlightResult = HighlightToken[] | string;
+
+/**
+ * Highlights the code of a code block. `lang` is undefined for indented code blocks and fences
+ * without an info string. Returning `null` leaves the code unhighlighted.
+ */
+export type Highlighter = (
+	code: string,
+	lang: string | undefined
+) => Nullable<HighlightResult> | Promise<Nullable<HighlightResult>>;
+
+export interface CodeLineOptions {
+	/** Adds a `line-number` span to the start of each line */
+	lineNumbers?: boolean;
+	/** One-based line numbers to give the `highlighted` class */
+	highlightLines?: number[];
+}
+
+/** Whether a url is the target of a link, or the source of an image */
+export type LinkKind = 'link' | 'image';
+
+export interface LinkContext {
+	kind: LinkKind;
+	/** Whether the url goes to another site than `origin` */
+	external: boolean;
+}
+
+/** Which urls links and images can have, and how links to other sites are opened */
+export interface LinkPolicy {
+	/**
+	 * Protocols that are allowed, such as `['https:', 'mailto:']`. By default every protocol is
+	 * allowed except `javascript:`, `vbscript:` and `data:`, which are never allowed.
+	 */
+	protocols?: string[];
+	/** If set, urls to other sites must have one of these hosts. `*.example.com` allows subdomains. */
+	allowedHosts?: string[];
+	/** Hosts that urls can't have, written like `allowedHosts` */
+	deniedHosts?: string[];
+	/**
+	 * The origin of this site, such as `https://example.com`. Absolute urls with another origin are
+	 * external, relative urls never are.
+	 */
+	origin?: string;
+	/** `rel` of external links, `noopener noreferrer nofollow` by default */
+	rel?: string | null;
+	/** `target` of external links, `_blank` by default */
+	target?: string | null;
+	/** Lets SvelteKit prefetch internal links, true by default */
+	prefetch?: boolean;
+	/**
+	 * Changes an allowed url, such as to send external links through a redirect page. Returning
+	 * `null` removes the url, and `undefined` keeps it.
+	 */
+	rewrite?: (url: string, context: LinkContext) => string | null | undefined;
+}
+
+/** A url that was allowed by a `LinkPolicy`, and the attributes to give its element */
+export interface ResolvedLink {
+	url: string;
+	external: boolean;
+	rel?: string;
+	target?: string;
+	prefetch: boolean;
+}
+
+interface NodeBase<T extends string> {
+	type: T;
+	position?: SourcePosition;
+}
+
+export interface HeadingNode extends NodeBase<'heading'> {
+	level: number;
+	id: string;
+	content: MarkdownNode[];
+}
+
+export type HrNode = NodeBase<'hr'>;
+
+export interface CodeBlockNode extends NodeBase<'codeBlock'> {
+	lang?: string;
+	/** The rest of a fence's info string after the language */
+	meta?: string;
+	highlightLines?: number[];
+	content: string;
+}
+
+export interface BlockQuoteNode extends NodeBase<'blockQuote'> {
+	content: MarkdownNode[];
+}
+
+export interface ListNode extends NodeBase<'list'> {
+	ordered: boolean;
+	start?: number;
+	/** The content of each item */
+	content: MarkdownNode[][];
+	/** Whether each item is a checked task, or `null` if it is not a task */
+	checked: (boolean | null)[];
+}
+
+export interface DefNode extends NodeBase<'def'> {
+	def: string;
+	target: string;
+	title?: string;
+}
+
+export interface FootnoteDefNode extends NodeBase<'footnoteDef'> {
+	label: string;
+	/** Undefined when the footnote is never referenced */
+	index?: number;
+	refCount: number;
+	content: MarkdownNode[];
+}
+
+export type TableAlign = 'left' | 'right' | 'center' | null;
+
+export interface TableNode extends NodeBase<'table'> {
+	header: MarkdownNode[][];
+	align: TableAlign[];
+	cells: MarkdownNode[][][];
+}
+
+export type NewlineNode = NodeBase<'newline'>;
+
+export interface ParagraphNode extends NodeBase<'paragraph'> {
+	content: MarkdownNode[];
+}
+
+export interface TaskNode extends NodeBase<'task'> {
+	checked: boolean;
+}
+
+export type TableSeparatorNode = NodeBase<'tableSeparator'>;
+
+export interface LinkNode extends NodeBase<'link'> {
+	content: MarkdownNode[];
+	/** Undefined for reflinks without a def */
+	target?: string;
+	title?: string;
+	/** The ref of a reflink, as it was written */
+	ref?: string;
+}
+
+export interface ImageNode extends NodeBase<'image'> {
+	alt: string;
+	/** Undefined for refimages without a def */
+	target?: string;
+	title?: string;
+	/** From the size written after the url, like `=300x200` */
+	width?: number;
+	height?: number;
+	/** The ref of a refimage, as it was written */
+	ref?: string;
+}
+
+export interface FootnoteNode extends NodeBase<'footnote'> {
+	/** The label as it was written */
+	label: string;
+	/** Undefined when the footnote has no definition, which is rendered as text */
+	index?: number;
+	/** Which reference to this footnote this is, starting from 1 */
+	refIndex: number;
+}
+
+export interface EmNode extends NodeBase<'em'> {
+	content: MarkdownNode[];
+}
+
+export interface StrongNode extends NodeBase<'strong'> {
+	content: MarkdownNode[];
+}
+
+export interface UNode extends NodeBase<'u'> {
+	content: MarkdownNode[];
+}
+
+export interface DelNode extends NodeBase<'del'> {
+	content: MarkdownNode[];
+}
+
+export interface InlineCodeNode extends NodeBase<'inlineCode'> {
+	content: string;
+}
+
+/** TeX from `$...$`, or `$$...$$` for display math */
+export interface MathNode extends NodeBase<'math'> {
+	content: string;
+	display: boolean;
+	/** Whether the math is a block of its own, rather than part of a paragraph */
+	block: boolean;
+}
+
+/** An allowed html element, from `htmlPlugin` */
+export interface HtmlNode extends NodeBase<'html'> {
+	tag: string;
+	attributes: Record<string, string>;
+	/** Undefined for void elements, like `<br>` */
+	content?: MarkdownNode[];
+	/** Whether the content was parsed as blocks */
+	block: boolean;
+}
+
+export type BrNode = NodeBase<'br'>;
+
+export interface TextNode extends NodeBase<'text'> {
+	content: string;
+}
+
+/** The referenced footnotes of a document, added after the rest of it when rendering */
+export interface FootnotesNode extends NodeBase<'footnotes'> {
+	content: (FootnoteDefNode & { index: number })[];
+}
+
+/** The nodes made by the default rules, by type */
+export interface DefaultNodeTypes {
+	heading: HeadingNode;
+	hr: HrNode;
+	codeBlock: CodeBlockNode;
+	blockQuote: BlockQuoteNode;
+	list: ListNode;
+	def: DefNode;
+	footnoteDef: FootnoteDefNode;
+	table: TableNode;
+	newline: NewlineNode;
+	paragraph: ParagraphNode;
+	task: TaskNode;
+	tableSeparator: TableSeparatorNode;
+	link: LinkNode;
+	image: ImageNode;
+	footnote: FootnoteNode;
+	em: EmNode;
+	strong: StrongNode;
+	u: UNode;
+	del: DelNode;
+	inlineCode: InlineCodeNode;
+	math: MathNode;
+	html: HtmlNode;
+	br: BrNode;
+	text: TextNode;
+	footnotes: FootnotesNode;
+}
+
+export type DefaultNode = DefaultNodeTypes[keyof DefaultNodeTypes];
+
+/**
+ * Every type of node a parse can return, by type. Custom rules add their nodes here with
+ * declaration merging:
+ *
+ * ```ts
+ * declare module 'svelte-simple-markdown' {
+ * 	interface MarkdownNodeTypes {
+ * 		issue: { type: 'issue'; number: number };
+ * 	}
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface MarkdownNodeTypes extends DefaultNodeTypes {}
+
+export type MarkdownNode = MarkdownNodeTypes[keyof MarkdownNodeTypes];
+
+/** The node with the given type */
+export type NodeOfType<T extends string> = T extends keyof MarkdownNodeTypes
+	? MarkdownNodeTypes[T]
+	: ASTNode;
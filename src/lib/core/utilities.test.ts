@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { defaultRules } from './default-rules';
+import { createParser } from './parser';
+import type { Parser } from './type';
+import { parseLineRanges, sanitizeUrl, slugify } from './utilities';
+
+describe('parseLineRanges', () => {
+	it('reads lines and ranges', () => {
+		expect(parseLineRanges('{1,4-6}', 10)).toEqual([1, 4, 5, 6]);
+		expect(parseLineRanges('title="a.ts" {3, 2-3}', 10)).toEqual([2, 3]);
+		expect(parseLineRanges('no ranges', 10)).toEqual([]);
+	});
+
+	it('leaves out lines past the end of the code', () => {
+		expect(parseLineRanges('{2-999999999}', 3)).toEqual([2, 3]);
+		expect(parseLineRanges('{5}', 3)).toEqual([]);
+	});
+
+	it('ignores ranges that end before they start', () => {
+		expect(parseLineRanges('{5-2,1}', 10)).toEqual([1]);
+	});
+
+	it('limits the lines of a code fence to its length', () => {
+		const parse: Parser = createParser(defaultRules);
+		const [codeBlock] = parse('```js {1-999999999}\na\nb\n```');
+		expect(codeBlock.highlightLines).toEqual([1, 2]);
+	});
+});
+
+describe('slugify', () => {
+	it('works like GitHub', () => {
+		expect(slugify('Hello, World!')).toBe('hello-world');
+		expect(slugify('  Ünïcode   words_and-dashes ')).toBe('ünïcode-words_and-dashes');
+	});
+});
+
+describe('sanitizeUrl', () => {
+	it('leaves out scripts and data', () => {
+		expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+		expect(sanitizeUrl(' JAVASCRIPT:alert(1)')).toBeNull();
+		expect(sanitizeUrl('data:text/html,x')).toBeNull();
+		expect(sanitizeUrl('https://example.com')).toBe('https://example.com');
+		expect(sanitizeUrl('/relative')).toBe('/relative');
+	});
+});
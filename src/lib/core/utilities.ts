@@ -1,4 +1,12 @@
-import type { MatchFunction, Parser, ParserState } from './type';
+import type {
+	ASTNode,
+	ImageNode,
+	MatchFunction,
+	Parser,
+	ParserState,
+	StringifyOutput,
+	StringifyState
+} from './type';
 
 /** Creates a match function for an inline scoped element from a regex */
 export function inlineRegex(regex: RegExp): MatchFunction {
@@ -38,23 +46,40 @@ export function unescapeUrl(rawUrlString: string) {
  * Parse some content with the parser `parse`, with state.inline
  * set to true. Useful for block elements; not generally necessary
  * to be used by inline elements (where state.inline is already true.
+ * `offset` is where the content starts in the capture, see `Parser`.
  */
-export function parseInline(parse: Parser, content: string, state: ParserState) {
+export function parseInline(parse: Parser, content: string, state: ParserState, offset?: number) {
 	const isCurrentlyInline = state.inline || false;
 	state.inline = true;
-	const result = parse(content, state);
+	const result = parse(content, state, offset);
 	state.inline = isCurrentlyInline;
 	return result;
 }
 
-export function parseBlock(parse: Parser, content: string, state: ParserState) {
+export function parseBlock(parse: Parser, content: string, state: ParserState, offset?: number) {
 	const isCurrentlyInline = state.inline || false;
 	state.inline = false;
-	const result = parse(content + '\n\n', state);
+	const result = parse(content + '\n\n', state, offset);
 	state.inline = isCurrentlyInline;
 	return result;
 }
 
+/**
+ * Stringify some nodes with the output function `output`, with state.inline set to true. The
+ * counterpart of `parseInline`, for block elements with inline content.
+ */
+export function stringifyInline(
+	output: StringifyOutput,
+	content: ASTNode[],
+	state: StringifyState
+) {
+	return output(content, { ...state, inline: true });
+}
+
+export function stringifyBlock(output: StringifyOutput, content: ASTNode[], state: StringifyState) {
+	return output(content, { ...state, inline: false });
+}
+
 export function parseCaptureInline(capture: RegExpMatchArray, parse: Parser, state: ParserState) {
 	return {
 		content: parseInline(parse, capture[1], state)
@@ -65,6 +90,57 @@ export function ignoreCapture() {
 	return {};
 }
 
+/** The plain text of some nodes, without any formatting */
+export function textContent(nodes: ASTNode | ASTNode[]): string {
+	if (Array.isArray(nodes)) {
+		return nodes.map(textContent).join('');
+	} else if (typeof nodes.content === 'string') {
+		return nodes.content;
+	} else if (nodes.content) {
+		return textContent(nodes.content as ASTNode[]);
+	} else {
+		return nodes.alt || '';
+	}
+}
+
+/**
+ * The image of a paragraph that only has an image with a title, which can be shown as a figure
+ * with the title as its caption
+ */
+export function figureImage(node: ASTNode): ImageNode | null {
+	const content = Array.isArray(node.content)
+		? (node.content as ASTNode[]).filter(
+				(child) => !(child.type === 'text' && !(child.content as string).trim())
+		  )
+		: [];
+	const [image] = content;
+	return node.type === 'paragraph' && content.length === 1 && image.type === 'image' && image.title
+		? (image as ImageNode)
+		: null;
+}
+
+const SLUG_REMOVE_R = /[^\p{L}\p{N}\s_-]/gu;
+const SLUG_SPACE_R = /\s+/g;
+
+/** The default slugger for heading ids, which works like GitHub's: `Hello, World!` is `hello-world` */
+export function slugify(text: string) {
+	return text.trim().toLowerCase().replace(SLUG_REMOVE_R, '').replace(SLUG_SPACE_R, '-');
+}
+
+const SANITIZE_TEXT_R = /[<>&"']/g;
+const SANITIZE_TEXT_CODES: Record<string, string> = {
+	'<': '&lt;',
+	'>': '&gt;',
+	'&': '&amp;',
+	'"': '&quot;',
+	"'": '&#x27;'
+};
+
+/** Escapes text so it can be placed inside of html content or a quoted attribute */
+export function sanitizeText(text: string) {
+	return String(text).replace(SANITIZE_TEXT_R, (chr) => SANITIZE_TEXT_CODES[chr]);
+}
+
 export function sanitizeUrl(url?: string) {
 	if (url == null) {
 		return null;
@@ -85,3 +161,31 @@ export function sanitizeUrl(url?: string) {
 	}
 	return url;
 }
+
+const LINE_RANGES_R = /\{([\d\s,-]+)\}/;
+
+/**
+ * Reads the lines to highlight from the info string of a code fence, written like `{3-5}` or
+ * `{1,4-6}`. Returns the line numbers in order, without duplicates. Lines past `lineCount` are
+ * left out, and so are ranges that end before they start.
+ */
+export function parseLineRanges(meta: string | undefined, lineCount: number) {
+	const match = meta && LINE_RANGES_R.exec(meta);
+	if (!match) {
+		return [];
+	}
+
+	const lines = new Set<number>();
+	match[1].split(',').forEach((range) => {
+		const bounds = range.split('-').map((n) => parseInt(n, 10));
+		const start = Math.max(bounds[0], 1);
+		const end = Math.min(bounds.length > 1 ? bounds[1] : bounds[0], lineCount);
+		if (!isNaN(start) && !isNaN(end)) {
+			for (let line = start; line <= end; line++) {
+				lines.add(line);
+			}
+		}
+	});
+
+	return [...lines].sort((a, b) => a - b);
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { defaultRules } from './default-rules';
+import { createParser } from './parser';
+import { RuleList } from './rule-list';
+import type { ASTNode, Parser } from './type';
+import { REMOVE, SKIP, transform, visit } from './visit';
+
+const parse: Parser = createParser(defaultRules);
+
+// The types of the visited nodes, in order
+function visitedTypes(nodes: ASTNode[], enter?: (node: ASTNode) => typeof SKIP | void) {
+	const types: string[] = [];
+	visit(nodes, (node) => {
+		types.push(node.type);
+		return enter?.(node);
+	});
+	return types;
+}
+
+describe('visit', () => {
+	it('visits nodes in source order, with their context', () => {
+		const nodes = parse('# *a*\n\n- b');
+		const visited: [string, string | null, string | null, number][] = [];
+		visit(nodes, (node, { parent, key, ancestors }) => {
+			visited.push([node.type, parent?.type ?? null, key, ancestors.length]);
+		});
+		expect(visited.filter(([type]) => type !== 'newline')).toEqual([
+			['heading', null, null, 0],
+			['em', 'heading', 'content', 1],
+			['text', 'em', 'content', 2],
+			['list', null, null, 0],
+			['text', 'list', 'content', 1]
+		]);
+	});
+
+	it('calls leave after the children', () => {
+		const calls: string[] = [];
+		visit(parse('*a*', { inline: true }), {
+			enter: (node) => {
+				calls.push('enter ' + node.type);
+			},
+			leave: (node) => {
+				calls.push('leave ' + node.type);
+			}
+		});
+		expect(calls).toEqual(['enter em', 'enter text', 'leave text', 'leave em']);
+	});
+
+	it('visits the nodes in table cells', () => {
+		const types = visitedTypes(parse('| *a* | b |\n|---|---|\n| `c` | d |'));
+		expect(types).toEqual(['table', 'em', 'text', 'text', 'inlineCode', 'text']);
+	});
+
+	it('leaves out the children of nodes when enter returns SKIP', () => {
+		const types = visitedTypes(parse('*a* **b**', { inline: true }), (node) =>
+			node.type === 'em' ? SKIP : undefined
+		);
+		expect(types).toEqual(['em', 'text', 'strong', 'text']);
+	});
+
+	it('uses the children of custom rules in the given rules', () => {
+		const rules = new RuleList(defaultRules);
+		rules.add({ name: 'pair', children: ['left', 'right'], match: () => null, parse: () => ({}) });
+		const pair = {
+			type: 'pair',
+			left: [{ type: 'text', content: 'l' }],
+			right: [{ type: 'text', content: 'r' }]
+		};
+		const texts: string[] = [];
+		visit(pair, (node) => {
+			if (node.type === 'text') {
+				texts.push(node.content as string);
+			}
+		});
+		expect(texts).toEqual([]);
+		visit(
+			pair,
+			(node) => {
+				if (node.type === 'text') {
+					texts.push(node.content as string);
+				}
+			},
+			rules
+		);
+		expect(texts).toEqual(['l', 'r']);
+	});
+});
+
+describe('transform', () => {
+	it('copies only the nodes that change', () => {
+		const nodes = parse('# *a*\n\n**b**');
+		const result = transform(nodes, (node) =>
+			node.type === 'text' && node.content === 'a' ? { ...node, content: 'A' } : undefined
+		);
+
+		expect(result).not.toBe(nodes);
+		expect(result[0]).not.toBe(nodes[0]);
+		// The text in the em in the heading
+		const text = (list: ASTNode[]) => ((list[0].content as ASTNode[])[0].content as ASTNode[])[0];
+		expect(text(result).content).toBe('A');
+		expect(result.slice(1)).toEqual(nodes.slice(1));
+		result.slice(1).forEach((node, i) => expect(node).toBe(nodes[i + 1]));
+		expect(text(nodes).content).toBe('a');
+	});
+
+	it('gives back the same nodes when nothing changes', () => {
+		const nodes = parse('# *a*\n\n- b');
+		expect(transform(nodes, () => undefined)).toBe(nodes);
+	});
+
+	it('replaces a node with an array of nodes without visiting them', () => {
+		const nodes = parse('*a*', { inline: true });
+		const entered: string[] = [];
+		const result = transform(nodes, (node) => {
+			entered.push(node.type);
+			if (node.type === 'em') {
+				return [
+					{ type: 'text', content: 'before ' },
+					node,
+					{ type: 'strong', content: [{ type: 'text', content: 'after' }] }
+				];
+			}
+		});
+		expect(entered).toEqual(['em']);
+		expect(result.map((node) => node.type)).toEqual(['text', 'em', 'strong']);
+		expect(result[1]).toBe(nodes[0]);
+	});
+
+	it('visits the children of a node returned from enter', () => {
+		const nodes = parse('*a*', { inline: true });
+		const entered: string[] = [];
+		transform(nodes, (node) => {
+			entered.push(node.type + ' ' + (node.type === 'text' ? node.content : ''));
+			if (node.type === 'em') {
+				return { type: 'strong', content: [{ type: 'text', content: 'b' }] };
+			}
+		});
+		expect(entered).toEqual(['em ', 'text b']);
+	});
+
+	it('removes nodes with REMOVE, from enter or leave', () => {
+		const nodes = parse('*a* b **c**', { inline: true });
+		const result = transform(nodes, {
+			enter: (node) => (node.type === 'em' ? REMOVE : undefined),
+			leave: (node) => (node.type === 'strong' ? REMOVE : undefined)
+		});
+		expect(result).toEqual([nodes[1]]);
+	});
+
+	it("doesn't visit the children of nodes when enter returns SKIP", () => {
+		const nodes = parse('*a*', { inline: true });
+		const result = transform(nodes, (node) => {
+			if (node.type === 'em') {
+				return SKIP;
+			}
+			return REMOVE;
+		});
+		expect(result).toBe(nodes);
+	});
+
+	it('transforms the nodes in table cells', () => {
+		const nodes = parse('| a | b |\n|---|---|\n| c | d |');
+		const result = transform(nodes, (node) =>
+			node.type === 'text' && (node.content as string).startsWith('c')
+				? { type: 'inlineCode', content: 'c' }
+				: undefined
+		);
+		const [table] = result;
+		expect(table).not.toBe(nodes[0]);
+		expect(table.header).toBe(nodes[0].header);
+		expect(table.cells[0][0]).toEqual([{ type: 'inlineCode', content: 'c' }]);
+		expect(table.cells[0][1]).toBe(nodes[0].cells[0][1]);
+		expect(nodes[0].cells[0][0][0].type).toBe('text');
+	});
+});
@@ -0,0 +1,165 @@
+import { defaultRules } from './default-rules';
+import type { RuleList } from './rule-list';
+import type { ASTNode } from './type';
+
+/** Returned from `enter` to leave out the children of a node */
+export const SKIP = Symbol('skip');
+/** Returned from `enter` or `leave` in `transform` to remove a node */
+export const REMOVE = Symbol('remove');
+
+export interface VisitContext {
+	/** The node whose children contain this one, or `null` for nodes at the top level */
+	parent: ASTNode | null;
+	/** The property of `parent` this node is in, such as `content` or `cells` */
+	key: string | null;
+	/** Every node above this one, starting with the top level */
+	ancestors: ASTNode[];
+}
+
+export type VisitResult = void | typeof SKIP | typeof REMOVE | ASTNode | ASTNode[];
+
+export type VisitCallback = (node: ASTNode, context: VisitContext) => VisitResult;
+
+export interface Visitor {
+	/** Called before the children of a node are visited */
+	enter?: VisitCallback;
+	/** Called after the children of a node are visited */
+	leave?: VisitCallback;
+}
+
+type ChildKeys = (node: ASTNode) => string[];
+
+/**
+ * Finds where nodes keep their children. Rules can list the properties in `children`, otherwise
+ * `content` is used when it isn't a string.
+ */
+function createChildKeys(rules: RuleList): ChildKeys {
+	const keys: Record<string, string[]> = {};
+	rules.forEach((rule) => {
+		if (rule.children) {
+			keys[rule.name] = rule.children;
+		}
+	});
+
+	return (node) => keys[node.type] || (Array.isArray(node.content) ? ['content'] : []);
+}
+
+function isNode(value: unknown): value is ASTNode {
+	return !!value && typeof value === 'object' && typeof (value as ASTNode).type === 'string';
+}
+
+/**
+ * Calls `visitor` for every node in an AST, in source order. Children can be nested in arrays, like
+ * the items of a `list` or the rows and cells of a `table`. Returning `SKIP` from `enter` leaves
+ * out the node's children. A function can be passed instead of a visitor, to use as `enter`.
+ *
+ * Custom rules that keep children somewhere other than `content` should set `children`, and be
+ * part of `rules`.
+ */
+export function visit(
+	nodes: ASTNode | ASTNode[],
+	visitor: Visitor | VisitCallback,
+	rules: RuleList = defaultRules
+) {
+	const { enter, leave } =
+		typeof visitor === 'function' ? { enter: visitor, leave: null } : visitor;
+	const childKeys = createChildKeys(rules);
+
+	const walk = (value: unknown, context: VisitContext) => {
+		if (Array.isArray(value)) {
+			value.forEach((child) => walk(child, context));
+		} else if (isNode(value)) {
+			const node = value;
+			if (enter?.(node, context) !== SKIP) {
+				const ancestors = [...context.ancestors, node];
+				childKeys(node).forEach((key) => walk(node[key], { parent: node, key, ancestors }));
+			}
+			leave?.(node, context);
+		}
+	};
+
+	walk(nodes, { parent: null, key: null, ancestors: [] });
+}
+
+/**
+ * Like `visit`, but creates a new AST from what the visitor returns:
+ *
+ * - a node replaces the current one. From `enter`, the new node's children are visited instead.
+ * - an array of nodes replaces the current one with all of them, which are not visited. This can
+ *   insert nodes before or after the current one, or remove it with an empty array.
+ * - `REMOVE` removes the current node.
+ * - nothing keeps the current node.
+ *
+ * The original AST is not changed. Nodes are only copied when something inside them changed, so
+ * parts of the AST that didn't change stay the same objects. The nodes in `context` are the
+ * originals.
+ */
+export function transform(
+	nodes: ASTNode[],
+	visitor: Visitor | VisitCallback,
+	rules: RuleList = defaultRules
+): ASTNode[] {
+	const { enter, leave } =
+		typeof visitor === 'function' ? { enter: visitor, leave: null } : visitor;
+	const childKeys = createChildKeys(rules);
+
+	const toNodes = (result: VisitResult, node: ASTNode) => {
+		if (result === REMOVE) {
+			return [];
+		} else if (Array.isArray(result)) {
+			return result;
+		} else if (result && result !== SKIP) {
+			return [result];
+		} else {
+			return [node];
+		}
+	};
+
+	const transformNode = (node: ASTNode, context: VisitContext): ASTNode[] => {
+		const entered = enter?.(node, context);
+		if (entered === REMOVE || Array.isArray(entered)) {
+			return toNodes(entered, node);
+		}
+
+		let current = toNodes(entered, node)[0];
+		let copied = false;
+		if (entered !== SKIP) {
+			const ancestors = [...context.ancestors, node];
+			childKeys(current).forEach((key) => {
+				const children = current[key];
+				const transformed = transformChildren(children, { parent: node, key, ancestors });
+				if (transformed !== children) {
+					current = copied ? current : { ...current };
+					current[key] = transformed;
+					copied = true;
+				}
+			});
+		}
+
+		return toNodes(leave?.(current, context), current);
+	};
+
+	const transformChildren = (value: unknown, context: VisitContext): unknown => {
+		if (!Array.isArray(value)) {
+			return value;
+		}
+
+		let changed = false;
+		const result: unknown[] = [];
+		value.forEach((child) => {
+			if (isNode(child)) {
+				const replacement = transformNode(child, context);
+				changed = changed || replacement.length !== 1 || replacement[0] !== child;
+				result.push(...replacement);
+			} else {
+				const transformed = transformChildren(child, context);
+				changed = changed || transformed !== child;
+				result.push(transformed);
+			}
+		});
+
+		return changed ? result : value;
+	};
+
+	return transformChildren(nodes, { parent: null, key: null, ancestors: [] }) as ASTNode[];
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { defaultRules } from './default-rules';
+import { MarkdownParseError } from './errors';
+import { createParser } from './parser';
+import {
+	createWorkerParser,
+	hostParser,
+	type WorkerRequest,
+	type WorkerResponse,
+	type WorkerScope
+} from './worker';
+
+/** A worker and its global scope, which pass messages to each other asynchronously */
+function createFakeWorker() {
+	const toWorker = new EventTarget();
+	const toMain = new EventTarget();
+	const sent: WorkerRequest[] = [];
+	const send = (target: EventTarget, data: unknown) =>
+		setTimeout(() => target.dispatchEvent(new MessageEvent('message', { data })));
+
+	const worker = {
+		addEventListener: toMain.addEventListener.bind(toMain),
+		postMessage(data: WorkerRequest) {
+			sent.push(data);
+			send(toWorker, data);
+		},
+		terminate() {
+			// nothing to stop
+		}
+	} as unknown as Worker;
+	const scope = {
+		addEventListener: toWorker.addEventListener.bind(toWorker),
+		postMessage(data: WorkerResponse) {
+			send(toMain, data);
+		}
+	} as WorkerScope;
+	return { worker, scope, sent };
+}
+
+describe('worker parser', () => {
+	const parse = createParser(defaultRules);
+
+	it('parses in the worker', async () => {
+		const { worker, scope } = createFakeWorker();
+		hostParser(parse, scope);
+		const nodes = await createWorkerParser(worker).parse('# Title');
+		expect(nodes).toEqual(parse('# Title'));
+	});
+
+	it('rejects with the parse error', async () => {
+		const { worker, scope } = createFakeWorker();
+		hostParser(parse, scope);
+		const parser = createWorkerParser(worker);
+		const error = await parser
+			.parse('too long', { inline: false, limits: { maxLength: 3 } })
+			.catch((e) => e);
+		expect(error).toBeInstanceOf(MarkdownParseError);
+		expect(error.reason).toBe('maxLength');
+	});
+
+	it('cancels parses', async () => {
+		const { worker, scope, sent } = createFakeWorker();
+		let parses = 0;
+		hostParser((source, state) => {
+			parses++;
+			return parse(source, state);
+		}, scope);
+		const parser = createWorkerParser(worker);
+
+		const controller = new AbortController();
+		const first = parser.parse('first', undefined, controller.signal);
+		controller.abort();
+		const second = parser.parse('second');
+
+		await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+		expect(await second).toEqual(parse('second'));
+		expect(sent.map((message) => message.type)).toEqual(['parse', 'cancel', 'parse']);
+		expect(parses).toBe(1);
+	});
+
+	it('rejects pending parses when terminated', async () => {
+		const { worker } = createFakeWorker();
+		const parser = createWorkerParser(worker);
+		const pending = parser.parse('never answered');
+		parser.terminate();
+		await expect(pending).rejects.toThrow('The worker was terminated');
+	});
+});
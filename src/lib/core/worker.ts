@@ -0,0 +1,132 @@
+import { MarkdownParseError, type MarkdownParseErrorReason } from './errors';
+import type { ASTNode, Parser, ParserState } from './type';
+
+/** A message from the main thread to a parser worker */
+export type WorkerRequest =
+	| { type: 'parse'; id: number; source: string; state?: ParserState }
+	| { type: 'cancel'; id: number };
+
+/** A message from a parser worker back to the main thread */
+export type WorkerResponse =
+	| { id: number; nodes: ASTNode[] }
+	| {
+			id: number;
+			error: { message: string; reason?: MarkdownParseErrorReason; offset?: number; rule?: string };
+	  };
+
+/** The parts of a worker's global scope that `hostParser` uses */
+export interface WorkerScope {
+	addEventListener(type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void): void;
+	postMessage(message: WorkerResponse): void;
+}
+
+/**
+ * Answers parse requests from `createWorkerParser` with `parser`. Call it from a worker's entry
+ * file. Requests are parsed in order, but ones that were cancelled before their turn are skipped,
+ * so a worker that falls behind only parses the newest source.
+ */
+export function hostParser(parser: Parser, scope = self as unknown as WorkerScope) {
+	const pending = new Map<number, { source: string; state?: ParserState }>();
+	let scheduled = false;
+
+	const parsePending = () => {
+		scheduled = false;
+		pending.forEach(({ source, state }, id) => {
+			pending.delete(id);
+			try {
+				scope.postMessage({ id, nodes: parser(source, state) });
+			} catch (error) {
+				const { message, reason, offset, rule } = error as MarkdownParseError;
+				scope.postMessage({ id, error: { message: String(message), reason, offset, rule } });
+			}
+		});
+	};
+
+	scope.addEventListener('message', ({ data }) => {
+		if (data.type === 'cancel') {
+			pending.delete(data.id);
+			return;
+		}
+
+		pending.set(data.id, { source: data.source, state: data.state });
+		// Waiting lets cancellations that are already queued arrive first
+		if (!scheduled) {
+			scheduled = true;
+			setTimeout(parsePending);
+		}
+	});
+}
+
+export interface WorkerParser {
+	/**
+	 * Parses `source` in the worker. The state is copied to the worker, so it can't have functions
+	 * in it; give those to the worker's parser as its default state instead. Rejects with a
+	 * `MarkdownParseError` when parsing fails, and with an `AbortError` when `signal` aborts first.
+	 */
+	parse(source: string, state?: ParserState, signal?: AbortSignal): Promise<ASTNode[]>;
+	/** Stops the worker, and rejects the parses that haven't finished */
+	terminate(): void;
+}
+
+/**
+ * Sends parses to a worker that calls `hostParser`. The resulting nodes are copies, made when they
+ * are sent from the worker.
+ */
+export function createWorkerParser(worker: Worker): WorkerParser {
+	const requests = new Map<
+		number,
+		{ resolve: (nodes: ASTNode[]) => void; reject: (error: Error) => void }
+	>();
+	let lastId = 0;
+
+	worker.addEventListener('message', ({ data }: MessageEvent<WorkerResponse>) => {
+		const request = requests.get(data.id);
+		requests.delete(data.id);
+		if (!request) {
+			return;
+		} else if ('nodes' in data) {
+			request.resolve(data.nodes);
+		} else {
+			const { message, reason, offset, rule } = data.error;
+			request.reject(
+				reason ? new MarkdownParseError(message, reason, offset ?? 0, rule) : new Error(message)
+			);
+		}
+	});
+
+	return {
+		parse(source, state, signal) {
+			return new Promise((resolve, reject) => {
+				const id = ++lastId;
+				const abort = () => {
+					requests.delete(id);
+					worker.postMessage({ type: 'cancel', id } as WorkerRequest);
+					reject(new DOMException('The parse was cancelled', 'AbortError'));
+				};
+
+				if (signal?.aborted) {
+					reject(new DOMException('The parse was cancelled', 'AbortError'));
+					return;
+				}
+				signal?.addEventListener('abort', abort, { once: true });
+
+				requests.set(id, {
+					resolve: (nodes) => {
+						signal?.removeEventListener('abort', abort);
+						resolve(nodes);
+					},
+					reject: (error) => {
+						signal?.removeEventListener('abort', abort);
+						reject(error);
+					}
+				});
+				worker.postMessage({ type: 'parse', id, source, state } as WorkerRequest);
+			});
+		},
+		terminate() {
+			worker.terminate();
+			requests.forEach(({ reject }) => reject(new Error('The worker was terminated')));
+			requests.clear();
+		}
+	};
+}
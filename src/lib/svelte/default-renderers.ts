@@ -5,6 +5,12 @@ import CodeBlockRenderer from './renderers/CodeBlockRenderer.svelte';
 import ListRenderer from './renderers/ListRenderer.svelte';
 import TableRenderer from './renderers/TableRenderer.svelte';
 import LinkRenderer from './renderers/LinkRenderer.svelte';
+import FootnoteRenderer from './renderers/FootnoteRenderer.svelte';
+import FootnotesRenderer from './renderers/FootnotesRenderer.svelte';
+import TaskRenderer from './renderers/TaskRenderer.svelte';
+import ParagraphRenderer from './renderers/ParagraphRenderer.svelte';
+import MathRenderer from './renderers/MathRenderer.svelte';
+import HtmlRenderer from './renderers/HtmlRenderer.svelte';
 import type { SvelteRenderers } from './types';
 
 export const defaultRenderers: SvelteRenderers = {
@@ -13,8 +19,9 @@ export const defaultRenderers: SvelteRenderers = {
 	blockQuote: BasicRenderer,
 	codeBlock: CodeBlockRenderer,
 	list: ListRenderer,
+	task: TaskRenderer,
 	table: TableRenderer,
-	paragraph: BasicRenderer,
+	paragraph: ParagraphRenderer,
 	// tableSeparator: ???,
 	link: LinkRenderer,
 	image: ImageRenderer,
@@ -23,6 +30,11 @@ export const defaultRenderers: SvelteRenderers = {
 	u: BasicRenderer,
 	del: BasicRenderer,
 	inlineCode: BasicRenderer,
-	br: BasicRenderer
+	math: MathRenderer,
+	html: HtmlRenderer,
+	br: BasicRenderer,
+	footnote: FootnoteRenderer,
+	// footnoteDef is rendered at the end of the document, as part of footnotes
+	footnotes: FootnotesRenderer
 	// text is handled internally
 };
@@ -1 +1,10 @@
-export { default as Markdown } from './Markdown.svelte';
+export {
+	default as Markdown,
+	CONFIG_CONTEXT,
+	RENDERER_CONTEXT,
+	TASK_CONTEXT
+} from './Markdown.svelte';
+export { preloadRenderers } from './lazy';
+export * from './plugins';
+export * from './presets';
+export * from './types';
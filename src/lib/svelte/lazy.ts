@@ -0,0 +1,49 @@
+import type { RendererLoader, SvelteRenderer, SvelteRenderers } from './types';
+
+const loaded = new WeakMap<RendererLoader, SvelteRenderer>();
+const loading = new WeakMap<RendererLoader, Promise<SvelteRenderer>>();
+
+/**
+ * Whether a renderer is a loader instead of a component. Components are classes with `$set` in the
+ * browser, and objects during server side rendering.
+ */
+export function isRendererLoader(renderer: SvelteRenderers[string]): renderer is RendererLoader {
+	return typeof renderer === 'function' && !('$set' in (renderer.prototype ?? {}));
+}
+
+/** The component of a loader that has finished loading */
+export function getLoadedRenderer(loader: RendererLoader): SvelteRenderer | undefined {
+	return loaded.get(loader);
+}
+
+/**
+ * Loads the component of a loader. Each loader is only called once, unless it fails, so it can be
+ * tried again.
+ */
+export function loadRenderer(loader: RendererLoader): Promise<SvelteRenderer> {
+	let promise = loading.get(loader);
+	if (!promise) {
+		promise = loader().then(
+			(module) => {
+				const component = 'default' in module ? module.default : module;
+				loaded.set(loader, component);
+				return component;
+			},
+			(error) => {
+				loading.delete(loader);
+				throw error;
+			}
+		);
+		loading.set(loader, promise);
+	}
+	return promise;
+}
+
+/**
+ * Loads every renderer that is a loader, so they are used right away. Server side rendering can't
+ * wait for them, so await this before rendering, such as in a `load` function.
+ */
+export async function preloadRenderers(renderers: SvelteRenderers = {}): Promise<void> {
+	const loaders = Object.values<SvelteRenderers[string]>(renderers).filter(isRendererLoader);
+	await Promise.all(loaders.map(loadRenderer));
+}
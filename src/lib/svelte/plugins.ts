@@ -0,0 +1,41 @@
+import {
+	applyPlugins,
+	createParser,
+	defaultRules,
+	type HtmlRenderers,
+	type MarkdownPlugin,
+	type RuleList
+} from '$lib/core';
+import type { MarkdownConfig, SvelteRenderers } from './types';
+
+export type SveltePlugin = MarkdownPlugin<SvelteRenderers[string]>;
+
+export interface MarkdownConfigOptions extends Omit<MarkdownConfig, 'parser'> {
+	plugins?: SveltePlugin[];
+	/** The rules the plugins are added to, `defaultRules` by default */
+	rules?: RuleList;
+}
+
+export interface PluginMarkdownConfig extends MarkdownConfig {
+	/** The rules with every plugin's rules added, for use with `stringify` and `visit` */
+	rules: RuleList;
+	/** The html renderers of every plugin, for use with `renderToHtml` */
+	html: HtmlRenderers;
+}
+
+/**
+ * Creates a config from plugins, each of which can bring rules, renderers and parser state. Throws
+ * an error listing every conflict between the plugins, see `applyPlugins`.
+ */
+export function createMarkdownConfig(options: MarkdownConfigOptions = {}): PluginMarkdownConfig {
+	const { plugins = [], rules = defaultRules, renderers, ...config } = options;
+	const applied = applyPlugins(plugins, rules);
+
+	return {
+		...config,
+		parser: createParser(applied.rules, applied.state),
+		renderers: { ...applied.renderers, ...renderers },
+		rules: applied.rules,
+		html: applied.html
+	};
+}
@@ -0,0 +1,28 @@
+import { chatRules, commentRules, createParser, gfmRules, titleRules } from '$lib/core';
+import { defaultRenderers } from './default-renderers';
+import type { MarkdownConfig } from './types';
+
+/** GitHub flavored markdown, see `gfmRules` */
+export const gfmConfig: MarkdownConfig = {
+	parser: createParser(gfmRules),
+	renderers: defaultRenderers
+};
+
+/** Inline formatting only, for titles, see `titleRules` */
+export const titleConfig: MarkdownConfig = {
+	parser: createParser(titleRules),
+	renderers: defaultRenderers,
+	inline: true
+};
+
+/** Chat messages, where a single newline is a line break, see `chatRules` */
+export const chatConfig: MarkdownConfig = {
+	parser: createParser(chatRules),
+	renderers: defaultRenderers
+};
+
+/** Comments without images or bare links, see `commentRules` */
+export const commentConfig: MarkdownConfig = {
+	parser: createParser(commentRules),
+	renderers: defaultRenderers
+};
@@ -1,15 +1,120 @@
-import type { ASTNode, Parser } from '$lib/core';
+import type {
+	ASTNode,
+	Highlighter,
+	ImageNode,
+	WorkerParser,
+	LinkPolicy,
+	MarkdownNodeTypes,
+	Parser,
+	SourcePosition,
+	TaskNode
+} from '$lib/core';
 import type { SvelteComponentTyped } from 'svelte';
+import type { Readable } from 'svelte/store';
 
 type Class<T> = { new (...args: any[]): T };
 
-export type SvelteRenderers = Record<string, Class<SvelteComponentTyped>>;
+type RendererConstructor<Props> = new (options: {
+	target: Element | ShadowRoot;
+	props?: Props;
+}) => SvelteComponentTyped;
+
+/**
+ * A component that renders nodes of type `Node`, given as its `node` prop. Components that only
+ * render their slot can leave out the prop.
+ */
+export type SvelteRenderer<Node = ASTNode> =
+	| RendererConstructor<{ node: Node }>
+	| RendererConstructor<Record<string, never>>;
+
+/**
+ * Loads a renderer when it is first needed, such as `() => import('./Math.svelte')`. Until then,
+ * the content of the node is shown without it.
+ */
+export type RendererLoader<Node = ASTNode> = () => Promise<
+	SvelteRenderer<Node> | { default: SvelteRenderer<Node> }
+>;
+
+/**
+ * Components to render each type of node with, or loaders for them. Renderers for the types in
+ * `MarkdownNodeTypes` must accept that type of node.
+ */
+export type SvelteRenderers = {
+	[Type in keyof MarkdownNodeTypes]?:
+		| SvelteRenderer<MarkdownNodeTypes[Type]>
+		| RendererLoader<MarkdownNodeTypes[Type]>;
+} & Record<string, Class<SvelteComponentTyped> | RendererLoader>;
 
 export interface SvelteRendererProps {
 	node: ASTNode;
 }
 
+export interface ImageOptions {
+	/** `loading` of images, `lazy` by default */
+	loading?: 'lazy' | 'eager';
+	/** `decoding` of images, `async` by default */
+	decoding?: 'async' | 'sync' | 'auto';
+	/** Changes the url of an allowed image, such as to load it from a CDN at its size */
+	resolve?: (url: string, node: ImageNode) => string;
+	/** Renders a paragraph that only has an image with a title as a figure, with a caption */
+	figures?: boolean;
+}
+
+/** A library that renders TeX to html, such as KaTeX */
+export interface MathLibrary {
+	renderToString(tex: string, options?: { displayMode?: boolean; throwOnError?: boolean }): string;
+}
+
 export interface MarkdownConfig {
 	parser: Parser;
+	/**
+	 * Parses in a worker that hosts `parser`, see `createWorkerParser`. The last finished parse is
+	 * shown until the newest one is done. The first value, and every value during server side
+	 * rendering, is parsed with `parser` right away.
+	 */
+	worker?: WorkerParser;
 	renderers?: SvelteRenderers;
+	/** Always parses as inline content, as if the `inline` prop was set */
+	inline?: boolean;
+	/** Adds a `#` link to each heading, pointing to the heading's id */
+	headingAnchors?: boolean;
+	/**
+	 * Highlights code blocks. Async highlighters show the plain code until they finish, and during
+	 * server side rendering.
+	 */
+	highlighter?: Highlighter;
+	/** Shows line numbers in code blocks */
+	lineNumbers?: boolean;
+	/** Adds a button to code blocks that copies the code */
+	copyButton?: boolean;
+	/**
+	 * Which urls links and images can have, and how external links are opened. This applies to
+	 * autolinks and bare urls as well.
+	 */
+	links?: LinkPolicy;
+	images?: ImageOptions;
+	/**
+	 * Renders math nodes, such as `katex` from the `katex` package. Without it, or when the TeX
+	 * can't be rendered, math is shown as its TeX source.
+	 */
+	math?: MathLibrary;
 }
+
+export interface TaskToggleEvent {
+	/** The `task` node that was toggled */
+	node: TaskNode;
+	checked: boolean;
+	/** Where the task's `[ ]` is in the source, see also `toggleTask` */
+	position?: SourcePosition;
+}
+
+export interface TaskContext {
+	interactive: Readable<boolean>;
+	toggle(node: TaskNode, checked: boolean): void;
+}
+
+/** The renderers of the nearest `Markdown` component, from `RENDERER_CONTEXT` */
+export type RendererContext = Readable<SvelteRenderers>;
+
+/** The config of the nearest `Markdown` component, from `CONFIG_CONTEXT` */
+export type ConfigContext = Readable<MarkdownConfig>;
@@ -1,68 +1,81 @@
 import {
-	defaultRules,
-	createParser,
 	blockRegex,
 	parseCaptureInline,
 	parseInline,
-	inlineRegex
+	inlineRegex,
+	type MarkdownNode
 } from '$lib/core';
-import type { MarkdownConfig } from '$lib/svelte/types';
+import { createMarkdownConfig, type SveltePlugin } from '$lib/svelte/plugins';
 import MentionArtifact from './MentionArtifact.svelte';
 import MentionQuestionSvelte from './MentionQuestion.svelte';
 import QuestionParagraph from './QuestionPara.svelte';
 
-const customRules = defaultRules.clone();
+declare module '$lib/core' {
+	interface MarkdownNodeTypes {
+		question: { type: 'question'; content: MarkdownNode[] };
+		mentionArtifact: { type: 'mentionArtifact'; id: string };
+		mentionQuestion: { type: 'mentionQuestion'; id: string };
+	}
+}
 
-customRules.insertBefore('paragraph', {
+const questionPlugin: SveltePlugin = {
 	name: 'question',
-	match: blockRegex(/^q: ((?:[^\n]|\n(?! *\n))+)(?:\n *)+\n/),
-	parse: parseCaptureInline
-});
-
-customRules.insertBefore('question', {
-	name: 'escape-question',
-	match: blockRegex(/^\\q: ((?:[^\n]|\n(?! *\n))+)(?:\n *)+\n/),
-	parse(capture, parse, state) {
-		return {
-			type: 'paragraph',
-			content: [
-				{
-					type: 'text',
-					content: 'q: '
-				},
-				...parseInline(parse, capture[1], state)
-			]
-		};
-	}
-});
+	rules: [
+		{
+			name: 'question',
+			before: 'paragraph',
+			match: blockRegex(/^q: ((?:[^\n]|\n(?! *\n))+)(?:\n *)+\n/),
+			parse: parseCaptureInline,
+			svelte: QuestionParagraph
+		},
+		{
+			name: 'escape-question',
+			before: 'question',
+			match: blockRegex(/^\\q: ((?:[^\n]|\n(?! *\n))+)(?:\n *)+\n/),
+			parse(capture, parse, state) {
+				return {
+					type: 'paragraph',
+					content: [
+						{
+							type: 'text',
+							content: 'q: '
+						},
+						...parseInline(parse, capture[1], state)
+					]
+				};
+			}
+		}
+	]
+};
 
-customRules.insertBefore('em', {
-	name: 'mentionArtifact',
-	match: inlineRegex(/^@([-a-z0-9]+)/),
-	parse(capture) {
-		return {
-			id: capture[1]
-		};
-	}
-});
+const mentionPlugin: SveltePlugin = {
+	name: 'mention',
+	rules: [
+		{
+			name: 'mentionArtifact',
+			before: 'em',
+			match: inlineRegex(/^@([-a-z0-9]+)/),
+			parse(capture) {
+				return {
+					id: capture[1]
+				};
+			},
+			svelte: MentionArtifact
+		},
+		{
+			name: 'mentionQuestion',
+			before: 'em',
+			match: inlineRegex(/^#([0-9]{12})/),
+			parse(capture) {
+				return {
+					id: capture[1]
+				};
+			},
+			svelte: MentionQuestionSvelte
+		}
+	]
+};
 
-customRules.insertBefore('em', {
-	name: 'mentionQuestion',
-	match: inlineRegex(/^#([0-9]{12})/),
-	parse(capture) {
-		return {
-			id: capture[1]
-		};
-	}
+export const davecodeQAMarkdown = createMarkdownConfig({
+	plugins: [questionPlugin, mentionPlugin]
 });
-
-const parser = createParser(customRules);
-
-export const davecodeQAMarkdown: MarkdownConfig = {
-	parser,
-	renderers: {
-		question: QuestionParagraph,
-		mentionQuestion: MentionQuestionSvelte,
-		mentionArtifact: MentionArtifact
-	}
-};